@@ -1,10 +1,13 @@
 import React from 'react';
+import AuthGate from './components/AuthGate';
 import CloudUploader from './components/CloudUploader';
 
 const App: React.FC = () => {
   return (
     <div className="App">
-      <CloudUploader />
+      <AuthGate>
+        <CloudUploader />
+      </AuthGate>
     </div>
   );
 };
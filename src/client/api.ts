@@ -0,0 +1,20 @@
+// Error responses carry `{ error: { message } }`; a body that is not JSON (a proxy's error page) falls back to `fallbackMessage`
+export const errorMessage = async (response: Response, fallbackMessage: string): Promise<string> => {
+  const data = await response.json().catch(() => ({}));
+  return data.error?.message || fallbackMessage;
+};
+
+export const postJson = async <T,>(endpoint: string, body: object, fallbackMessage: string, signal?: AbortSignal): Promise<T> => {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    throw new Error(await errorMessage(response, fallbackMessage));
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+};
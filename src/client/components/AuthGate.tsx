@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { AlertCircle, Loader2, LogIn, LogOut, Lock, User } from 'lucide-react';
+
+interface Identity {
+  type: 'api-key' | 'session';
+  id: string;
+  name: string;
+  scopes: string[];
+}
+
+interface AuthState {
+  authRequired: boolean;
+  // Absent when the server has no sign-in configured; API keys are then the only way in
+  loginUrl?: string;
+  identity?: Identity;
+}
+
+interface AuthGateProps {
+  children: React.ReactNode;
+}
+
+// Shows a sign-in card instead of the app when the server requires one, and who is signed in otherwise
+const AuthGate: React.FC<AuthGateProps> = ({ children }) => {
+  const [auth, setAuth] = useState<AuthState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [signingOut, setSigningOut] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then(setAuth)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the sign-in state'));
+  }, []);
+
+  const signIn = () => {
+    if (!auth?.loginUrl) return;
+    const returnTo = `${window.location.pathname}${window.location.search}`;
+    window.location.href = `${auth.loginUrl}?returnTo=${encodeURIComponent(returnTo)}`;
+  };
+
+  const signOut = async () => {
+    setSigningOut(true);
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      window.location.reload();
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="flex items-center gap-2 text-red-700 bg-red-50 border border-red-200 rounded-lg p-4">
+          <AlertCircle className="w-5 h-5" />
+          <span>Could not reach the server: {error}</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!auth) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (auth.authRequired && !auth.identity) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center p-4">
+        <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 text-center">
+          <div className="w-16 h-16 bg-blue-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
+            <Lock className="w-8 h-8 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Sign in required</h1>
+          {auth.loginUrl ? (
+            <>
+              <p className="text-gray-600 mb-6">Sign in with your organization account to upload files.</p>
+              <button
+                onClick={signIn}
+                className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <LogIn className="w-4 h-4" />
+                Sign in
+              </button>
+            </>
+          ) : (
+            <p className="text-gray-600">
+              This server only accepts API keys and has no browser sign-in configured. Ask an administrator for an API key to use the API.
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {auth.identity && (
+        <div className="fixed top-4 right-4 z-40 flex items-center gap-3 bg-white rounded-lg shadow px-3 py-2 text-sm text-gray-700">
+          <User className="w-4 h-4 text-gray-500" />
+          <span title={auth.identity.scopes.join(', ')}>{auth.identity.name}</span>
+          {auth.identity.type === 'session' && (
+            <button
+              onClick={signOut}
+              disabled={signingOut}
+              className="flex items-center gap-1 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              <LogOut className="w-4 h-4" />
+              Sign out
+            </button>
+          )}
+        </div>
+      )}
+      {children}
+    </>
+  );
+};
+
+export default AuthGate;
@@ -0,0 +1,409 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { AlertCircle, Loader2, X, Eye, Folder, FileText, Trash2, Pencil, Search, RefreshCw, ChevronRight, ExternalLink } from 'lucide-react';
+
+interface ObjectInfo {
+  key: string;
+  size: number;
+  contentType?: string;
+  lastModified?: string;
+}
+
+interface ListResult {
+  objects: ObjectInfo[];
+  prefixes: string[];
+  nextPageToken?: string;
+  scanned?: number; // keys looked at by a search
+}
+
+interface Preview {
+  key: string;
+  url: string;
+  contentType: string;
+  kind: 'image' | 'text' | 'none';
+  text?: string;
+  truncated?: boolean;
+}
+
+interface BucketBrowserProps {
+  // Request body fragment naming the storage target: `{ profile }` or `{ config }`; the listing reloads when it changes
+  target: object;
+  targetName: string;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 100;
+const PREVIEW_URL_TTL_SECONDS = 300;
+// Larger text objects are not fetched for preview; shown text is cut at PREVIEW_TEXT_CHARS
+const MAX_TEXT_PREVIEW_BYTES = 1024 * 1024;
+const PREVIEW_TEXT_CHARS = 64 * 1024;
+const TEXT_TYPE_PATTERN = /^text\/|[/+](json|xml|yaml|javascript|csv)$/;
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+const previewKind = (contentType: string, size: number): Preview['kind'] => {
+  if (contentType.startsWith('image/')) return 'image';
+  if (TEXT_TYPE_PATTERN.test(contentType) && size <= MAX_TEXT_PREVIEW_BYTES) return 'text';
+  return 'none';
+};
+
+// Path relative to the open folder; folders keep their trailing slash
+const entryName = (path: string, prefix: string): string =>
+  path.startsWith(prefix) ? path.slice(prefix.length) : path;
+
+/**
+ * Lists the destination one folder level at a time (or, while searching, all
+ * keys below the current folder whose name contains the term), with previews
+ * for images and text and per-object rename and delete.
+ */
+const BucketBrowser: React.FC<BucketBrowserProps> = ({ target, targetName, onClose }) => {
+  const [prefix, setPrefix] = useState('');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [listing, setListing] = useState<ListResult>({ objects: [], prefixes: [] });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [renaming, setRenaming] = useState<{ key: string; value: string } | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const postJson = useCallback(async <T,>(endpoint: string, body: object, fallbackMessage: string): Promise<T> => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...body, ...target })
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error?.message || fallbackMessage);
+    }
+    return data;
+  }, [target]);
+
+  // A page token continues the current listing; without one the listing starts over
+  const load = useCallback(async (pageToken?: string): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await postJson<ListResult>('/api/objects/list', {
+        prefix,
+        maxResults: PAGE_SIZE,
+        ...(search && { search }),
+        ...(pageToken && { pageToken })
+      }, 'Failed to list objects');
+      setListing(prev => pageToken ? {
+        ...page,
+        objects: [...prev.objects, ...page.objects],
+        prefixes: [...prev.prefixes, ...page.prefixes],
+        scanned: (prev.scanned ?? 0) + (page.scanned ?? 0)
+      } : page);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to list objects');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [postJson, prefix, search]);
+
+  useEffect(() => {
+    setPreview(null);
+    setRenaming(null);
+    setConfirmDelete(null);
+    load();
+  }, [load]);
+
+  const openFolder = (folder: string): void => {
+    setSearch('');
+    setSearchInput('');
+    setPrefix(folder);
+  };
+
+  const showPreview = async (object: ObjectInfo): Promise<void> => {
+    setBusyKey(object.key);
+    setError(null);
+    try {
+      // Some listings (S3) leave out the content type
+      const info = object.contentType
+        ? object
+        : await postJson<ObjectInfo>('/api/objects/head', { key: object.key }, 'Failed to read the object');
+      const contentType = info.contentType ?? 'application/octet-stream';
+      const signed = await postJson<{ signedUrl: string }>('/api/sign/download', {
+        fileName: object.key,
+        expiresIn: PREVIEW_URL_TTL_SECONDS
+      }, 'Failed to create a preview link');
+      // Local storage links are relative to the app
+      const url = new URL(signed.signedUrl, window.location.origin).toString();
+      const kind = previewKind(contentType, info.size);
+
+      let text: string | undefined;
+      if (kind === 'text') {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`Preview failed: HTTP ${response.status}`);
+        text = await response.text();
+      }
+      setPreview({
+        key: object.key,
+        url,
+        contentType,
+        kind,
+        ...(text !== undefined && { text: text.slice(0, PREVIEW_TEXT_CHARS), truncated: text.length > PREVIEW_TEXT_CHARS })
+      });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Preview failed');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const deleteObject = async (key: string): Promise<void> => {
+    setBusyKey(key);
+    setConfirmDelete(null);
+    try {
+      const { errors } = await postJson<{ deleted: string[]; errors: { key: string; message: string }[] }>(
+        '/api/objects/delete', { keys: [key] }, 'Failed to delete the object'
+      );
+      if (errors.length > 0) throw new Error(errors[0]?.message);
+      setListing(prev => ({ ...prev, objects: prev.objects.filter(object => object.key !== key) }));
+      setPreview(current => current?.key === key ? null : current);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete the object');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const renameObject = async (): Promise<void> => {
+    if (!renaming) return;
+    const newKey = renaming.value.trim().replace(/^\/+/, '');
+    if (!newKey || newKey === renaming.key) {
+      setRenaming(null);
+      return;
+    }
+
+    setBusyKey(renaming.key);
+    try {
+      await postJson('/api/objects/rename', { key: renaming.key, newKey }, 'Failed to rename the object');
+      setRenaming(null);
+      setPreview(null);
+      await load();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to rename the object');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const crumbs = prefix.split('/').filter(Boolean);
+
+  return (
+    <div className="mt-8 p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-900">Browse {targetName}</h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => load()}
+            disabled={isLoading}
+            className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Breadcrumbs */}
+      <div className="flex items-center flex-wrap gap-1 text-sm mb-3">
+        <button onClick={() => openFolder('')} className="text-blue-600 hover:underline">{targetName}</button>
+        {crumbs.map((crumb, index) => (
+          <React.Fragment key={index}>
+            <ChevronRight className="w-3 h-3 text-gray-400" />
+            <button
+              onClick={() => openFolder(`${crumbs.slice(0, index + 1).join('/')}/`)}
+              className="text-blue-600 hover:underline"
+            >
+              {crumb}
+            </button>
+          </React.Fragment>
+        ))}
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setSearch(searchInput.trim());
+        }}
+        className="flex gap-2 mb-3"
+      >
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+          <input
+            type="text"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder={prefix ? `Search in ${prefix}` : 'Search by name'}
+            className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+        {search && (
+          <button
+            type="button"
+            onClick={() => {
+              setSearch('');
+              setSearchInput('');
+            }}
+            className="px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+          >
+            Clear
+          </button>
+        )}
+      </form>
+
+      {error && (
+        <div className="flex items-start gap-2 p-2 mb-3 bg-red-50 border border-red-200 rounded text-xs text-red-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span className="break-words">{error}</span>
+        </div>
+      )}
+
+      <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+        {!search && listing.prefixes.map(folder => (
+          <button
+            key={folder}
+            onClick={() => openFolder(folder)}
+            className="w-full flex items-center gap-2 py-2 text-left text-sm hover:bg-gray-50"
+          >
+            <Folder className="w-4 h-4 text-amber-500 flex-shrink-0" />
+            <span className="truncate">{entryName(folder, prefix)}</span>
+          </button>
+        ))}
+
+        {listing.objects.map(object => (
+          <div key={object.key} className="py-2 text-sm">
+            <div className="flex items-center gap-2">
+              <FileText className="w-4 h-4 text-gray-400 flex-shrink-0" />
+              {renaming?.key === object.key ? (
+                <input
+                  type="text"
+                  value={renaming.value}
+                  onChange={(e) => setRenaming({ key: object.key, value: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') renameObject();
+                    if (e.key === 'Escape') setRenaming(null);
+                  }}
+                  className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-sm font-mono"
+                  autoFocus
+                />
+              ) : (
+                <span className="flex-1 min-w-0 truncate font-mono" title={object.key}>
+                  {search ? object.key : entryName(object.key, prefix)}
+                </span>
+              )}
+              {busyKey === object.key ? (
+                <Loader2 className="w-4 h-4 animate-spin text-blue-500" />
+              ) : confirmDelete === object.key ? (
+                <span className="flex items-center gap-2 text-xs">
+                  <span className="text-red-600">Delete?</span>
+                  <button onClick={() => deleteObject(object.key)} className="text-red-600 font-medium hover:underline">Yes</button>
+                  <button onClick={() => setConfirmDelete(null)} className="text-gray-600 hover:underline">No</button>
+                </span>
+              ) : renaming?.key === object.key ? (
+                <span className="flex items-center gap-2 text-xs">
+                  <button onClick={renameObject} className="text-blue-600 font-medium hover:underline">Rename</button>
+                  <button onClick={() => setRenaming(null)} className="text-gray-600 hover:underline">Cancel</button>
+                </span>
+              ) : (
+                <span className="flex items-center gap-2">
+                  <button onClick={() => showPreview(object)} className="text-gray-400 hover:text-gray-600" title="Preview">
+                    <Eye className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setRenaming({ key: object.key, value: object.key })}
+                    className="text-gray-400 hover:text-gray-600"
+                    title="Rename"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => setConfirmDelete(object.key)} className="text-gray-400 hover:text-red-600" title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </span>
+              )}
+            </div>
+            <div className="ml-6 text-xs text-gray-500">
+              {formatSize(object.size)}
+              {object.contentType && ` · ${object.contentType}`}
+              {object.lastModified && ` · ${new Date(object.lastModified).toLocaleString()}`}
+            </div>
+          </div>
+        ))}
+
+        {!isLoading && listing.objects.length === 0 && (search || listing.prefixes.length === 0) && (
+          <p className="py-4 text-center text-sm text-gray-500">
+            {search ? `No objects matching "${search}"` : 'This folder is empty'}
+          </p>
+        )}
+      </div>
+
+      {listing.nextPageToken && (
+        <div className="flex items-center justify-between mt-3">
+          {search && listing.scanned !== undefined && (
+            <span className="text-xs text-gray-500">{listing.scanned} objects searched</span>
+          )}
+          <button
+            onClick={() => load(listing.nextPageToken)}
+            disabled={isLoading}
+            className="ml-auto px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded hover:bg-gray-50 disabled:opacity-50"
+          >
+            {search ? 'Search further' : 'Load more'}
+          </button>
+        </div>
+      )}
+
+      {preview && (
+        <div className="mt-4 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+          <div className="flex items-center justify-between mb-2 gap-2">
+            <span className="text-sm font-mono truncate" title={preview.key}>{preview.key}</span>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <a href={preview.url} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-gray-600" title="Open">
+                <ExternalLink className="w-4 h-4" />
+              </a>
+              <button onClick={() => setPreview(null)} className="text-gray-400 hover:text-gray-600" title="Close preview">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          {preview.kind === 'image' && (
+            <img src={preview.url} alt={preview.key} className="max-h-80 mx-auto rounded" />
+          )}
+          {preview.kind === 'text' && (
+            <>
+              <pre className="max-h-80 overflow-auto text-xs bg-white border border-gray-200 rounded p-2 whitespace-pre-wrap break-words">
+                {preview.text}
+              </pre>
+              {preview.truncated && (
+                <p className="text-xs text-gray-500 mt-1">Showing the first {PREVIEW_TEXT_CHARS / 1024} KB</p>
+              )}
+            </>
+          )}
+          {preview.kind === 'none' && (
+            <p className="text-xs text-gray-500">No preview for {preview.contentType}; open the object to download it.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BucketBrowser;
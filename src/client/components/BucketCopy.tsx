@@ -0,0 +1,324 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AlertCircle, CheckCircle, Loader2, X, ArrowRight, Copy, Download } from 'lucide-react';
+
+type ConflictPolicy = 'overwrite' | 'skip' | 'rename' | 'fail';
+
+interface CopySourceOption {
+  name: string;
+  provider: string;
+  target: string;
+}
+
+interface CopyPlan {
+  from: { provider: string; target: string; prefix: string };
+  to: { provider: string; target: string; prefix: string };
+  native: boolean;
+  count: number;
+  totalBytes: number;
+  truncated: boolean;
+  objects: { sourceKey: string; key: string; size: number }[];
+}
+
+interface CopyJobItem {
+  id: string;
+  sourceKey?: string;
+  fileName?: string;
+  status: 'pending' | 'uploading' | 'success' | 'error';
+  conflict?: string;
+  error?: string;
+}
+
+interface CopyJob {
+  id: string;
+  status: 'queued' | 'running' | 'completed';
+  counts: Record<CopyJobItem['status'], number>;
+  bytes?: { total: number; done: number };
+  items: CopyJobItem[];
+}
+
+interface BucketCopyProps {
+  // Request body fragment naming the destination: `{ profile }` or `{ config }`
+  target: object;
+  targetName: string;
+  // Storage profiles that can be copied from, besides the destination itself
+  profiles: CopySourceOption[];
+  onClose: () => void;
+}
+
+const JOB_POLL_INTERVAL_MS = 2000;
+const PLAN_PREVIEW_LIMIT = 50;
+const FAILED_ITEMS_LIMIT = 10;
+// The select value for copying within the destination's own bucket
+const SAME_TARGET = '';
+
+const CONFLICT_POLICY_LABELS: Record<ConflictPolicy, string> = {
+  overwrite: 'Overwrite',
+  skip: 'Skip',
+  rename: 'Rename (add -1, -2, ...)',
+  fail: 'Fail'
+};
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+/**
+ * Copies everything under a prefix of a storage profile (or of the
+ * destination itself) into the destination. A dry run lists the objects and
+ * their new keys first; the copy then runs as a server-side job.
+ */
+const BucketCopy: React.FC<BucketCopyProps> = ({ target, targetName, profiles, onClose }) => {
+  const [source, setSource] = useState(SAME_TARGET);
+  const [sourcePrefix, setSourcePrefix] = useState('');
+  const [prefix, setPrefix] = useState('');
+  const [onConflict, setOnConflict] = useState<ConflictPolicy>('skip');
+  const [plan, setPlan] = useState<CopyPlan | null>(null);
+  const [job, setJob] = useState<CopyJob | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const polling = useRef(true);
+
+  // A plan only stands for the inputs it was made from
+  useEffect(() => {
+    setPlan(null);
+  }, [target, source, sourcePrefix, prefix]);
+
+  useEffect(() => () => {
+    polling.current = false;
+  }, []);
+
+  const postCopy = async <T,>(dryRun: boolean): Promise<T> => {
+    const response = await fetch('/api/jobs/copy', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        from: { ...(source === SAME_TARGET ? target : { profile: source }), prefix: sourcePrefix.trim() },
+        prefix: prefix.trim(),
+        onConflict,
+        dryRun,
+        ...target
+      })
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error?.message || (dryRun ? 'Failed to list the source' : 'Failed to start the copy'));
+    }
+    return data;
+  };
+
+  const preview = async (): Promise<void> => {
+    setIsBusy(true);
+    setError(null);
+    setJob(null);
+    try {
+      setPlan(await postCopy<CopyPlan>(true));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to list the source');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const pollJob = async (jobId: string): Promise<void> => {
+    while (polling.current) {
+      const response = await fetch(`/api/jobs/${jobId}`);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error?.message || 'Failed to fetch the copy status');
+
+      setJob(data);
+      if (data.status === 'completed') return;
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+  };
+
+  const startCopy = async (): Promise<void> => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const { jobId, job } = await postCopy<{ jobId: string; job: CopyJob }>(false);
+      setPlan(null);
+      setJob(job);
+      await pollJob(jobId);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to start the copy');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const sourceName = source === SAME_TARGET ? targetName : profiles.find(profile => profile.name === source)?.target ?? source;
+  const percent = job?.bytes && job.bytes.total > 0
+    ? Math.floor((job.bytes.done / job.bytes.total) * 100)
+    : job && job.items.length > 0 ? Math.floor(((job.counts.success + job.counts.error) / job.items.length) * 100) : 0;
+  const failed = job?.items.filter(item => item.status === 'error') ?? [];
+
+  return (
+    <div className="mt-8 p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-900">Copy into {targetName}</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <select
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            disabled={isBusy}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value={SAME_TARGET}>{targetName} (this destination)</option>
+            {profiles.map(profile => (
+              <option key={profile.name} value={profile.name}>
+                {profile.name} ({profile.provider}: {profile.target})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Source prefix</label>
+          <input
+            type="text"
+            value={sourcePrefix}
+            onChange={(e) => setSourcePrefix(e.target.value)}
+            disabled={isBusy}
+            placeholder="Everything in the bucket"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Destination prefix</label>
+          <input
+            type="text"
+            value={prefix}
+            onChange={(e) => setPrefix(e.target.value)}
+            disabled={isBusy}
+            placeholder="Bucket root"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Existing objects</label>
+          <select
+            value={onConflict}
+            onChange={(e) => setOnConflict(e.target.value as ConflictPolicy)}
+            disabled={isBusy}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {(Object.keys(CONFLICT_POLICY_LABELS) as ConflictPolicy[]).map(policy => (
+              <option key={policy} value={policy}>{CONFLICT_POLICY_LABELS[policy]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Objects keep their path below the source prefix, their content type and their metadata.
+      </p>
+
+      {error && (
+        <div className="flex items-start gap-2 p-2 mb-3 bg-red-50 border border-red-200 rounded text-xs text-red-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span className="break-words">{error}</span>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={preview}
+          disabled={isBusy}
+          className="flex items-center gap-2 px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          {isBusy && !job ? <Loader2 className="w-4 h-4 animate-spin" /> : null}
+          Preview
+        </button>
+        <button
+          onClick={startCopy}
+          disabled={isBusy || !plan || plan.count === 0 || plan.truncated}
+          className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          <Copy className="w-4 h-4" />
+          Copy {plan ? `${plan.count} object${plan.count === 1 ? '' : 's'}` : ''}
+        </button>
+      </div>
+
+      {plan && (
+        <div className="mt-4 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+          <p className="text-sm text-gray-700">
+            {plan.count} object{plan.count === 1 ? '' : 's'}, {formatSize(plan.totalBytes)}, from {sourceName}
+            {plan.from.prefix && <span className="font-mono"> {plan.from.prefix}</span>}
+            {plan.native ? '; copied by the storage service' : '; streamed through this server'}
+          </p>
+          {plan.truncated && (
+            <p className="text-xs text-amber-700 mt-1">
+              There are more than {plan.count} objects under this prefix; copy a narrower prefix.
+            </p>
+          )}
+          {plan.count > 0 && (
+            <ul className="mt-2 max-h-64 overflow-y-auto space-y-1 text-xs font-mono">
+              {plan.objects.slice(0, PLAN_PREVIEW_LIMIT).map(object => (
+                <li key={object.sourceKey} className="flex items-center gap-2">
+                  <span className="truncate" title={object.sourceKey}>{object.sourceKey}</span>
+                  <ArrowRight className="w-3 h-3 text-gray-400 flex-shrink-0" />
+                  <span className="truncate" title={object.key}>{object.key}</span>
+                  <span className="ml-auto text-gray-500 flex-shrink-0">{formatSize(object.size)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {plan.count > PLAN_PREVIEW_LIMIT && (
+            <p className="text-xs text-gray-500 mt-1">and {plan.count - PLAN_PREVIEW_LIMIT} more</p>
+          )}
+        </div>
+      )}
+
+      {job && (
+        <div className="mt-4 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+          <div className="flex items-center justify-between mb-2 text-sm">
+            <span className="flex items-center gap-2 text-gray-700">
+              {job.status === 'completed'
+                ? <CheckCircle className={`w-4 h-4 ${job.counts.error > 0 ? 'text-amber-500' : 'text-green-500'}`} />
+                : <Loader2 className="w-4 h-4 animate-spin text-blue-500" />}
+              {job.counts.success} copied, {job.counts.error} failed, {job.counts.pending + job.counts.uploading} remaining
+            </span>
+            <a
+              href={`/api/jobs/${job.id}/report?format=csv`}
+              className="flex items-center gap-1 text-xs text-blue-600 hover:underline"
+            >
+              <Download className="w-3 h-3" />
+              Report
+            </a>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div className="bg-blue-600 h-2 rounded-full transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          {job.bytes && (
+            <p className="text-xs text-gray-500 mt-1">{formatSize(job.bytes.done)} of {formatSize(job.bytes.total)}</p>
+          )}
+          {failed.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs text-red-700">
+              {failed.slice(0, FAILED_ITEMS_LIMIT).map(item => (
+                <li key={item.id} className="break-words">
+                  <span className="font-mono">{item.sourceKey}</span>: {item.error}
+                </li>
+              ))}
+              {failed.length > FAILED_ITEMS_LIMIT && <li>and {failed.length - FAILED_ITEMS_LIMIT} more in the report</li>}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BucketCopy;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { CheckCircle2 } from 'lucide-react';
+import { useCorsPlan } from '../hooks/useCorsPlan';
+import type { CloudConfig, CorsPlan } from '../types';
+
+interface CorsPanelProps {
+  // Request body fragment naming the storage target: `{ profile }` or `{ config }`
+  target: object;
+  targetName: string;
+  provider: CloudConfig['provider'];
+  isConfigured: boolean;
+}
+
+const describeCorsGaps = (missing: CorsPlan['missing']): string =>
+  [
+    ...(missing?.methods ?? []),
+    ...(missing?.allowedHeaders ?? []).map(header => `request header ${header}`),
+    ...(missing?.exposeHeaders ?? []).map(header => `exposed header ${header}`)
+  ].join(', ');
+
+// Setup notes, and the check that the bucket lets browsers upload from this app's origin
+const CorsPanel: React.FC<CorsPanelProps> = ({ target, targetName, provider, isConfigured }) => {
+  const cors = useCorsPlan(target);
+
+  return (
+    <div className="mt-8 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+      <h3 className="text-sm font-medium text-amber-800 mb-2">Setup Required</h3>
+      <ul className="text-xs text-amber-700 space-y-1">
+        <li>• Configure cloud storage credentials using the button above</li>
+        <li>• Implement backend APIs for signed URLs with validation</li>
+        <li>• Set up CORS policies on your storage buckets/containers</li>
+      </ul>
+      {isConfigured && provider !== 'local' && (
+        <div className="mt-3 pt-3 border-t border-amber-200">
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-amber-700">
+              Browser uploads need the {provider === 'azure' ? 'storage account' : 'bucket'} to allow this app's origin.
+            </p>
+            <button
+              onClick={cors.check}
+              disabled={cors.step === 'loading' || cors.step === 'applying'}
+              className="flex-shrink-0 px-3 py-1 text-xs bg-amber-600 text-white rounded hover:bg-amber-700 disabled:bg-gray-300"
+            >
+              {cors.step === 'loading' ? 'Checking...' : 'Check CORS'}
+            </button>
+          </div>
+          {cors.error && (
+            <p className="text-xs text-red-600 mt-2">{cors.error}</p>
+          )}
+          {cors.plan && cors.step !== 'loading' && (
+            cors.plan.proposed ? (
+              <div className="mt-2 space-y-2">
+                <p className="text-xs text-amber-800">
+                  {cors.plan.rules.length === 0 ? 'No CORS rules are set' : `None of the ${cors.plan.rules.length} CORS rules fully allows`} uploads from {cors.plan.origin}; missing
+                  {' '}{describeCorsGaps(cors.plan.missing)}.
+                  This rule would be added before the existing ones:
+                </p>
+                <pre className="text-xs bg-white border border-amber-200 rounded p-2 overflow-x-auto">
+                  {JSON.stringify(cors.plan.required, null, 2)}
+                </pre>
+                {cors.step === 'confirm' || cors.step === 'applying' ? (
+                  <div className="flex items-center gap-2">
+                    <p className="text-xs text-amber-800 flex-1">
+                      Replace the CORS configuration of {targetName} with these {cors.plan.proposed.length} rules?
+                    </p>
+                    <button
+                      onClick={cors.apply}
+                      disabled={cors.step === 'applying'}
+                      className="px-3 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700 disabled:bg-gray-300"
+                    >
+                      {cors.step === 'applying' ? 'Applying...' : 'Apply'}
+                    </button>
+                    <button
+                      onClick={() => cors.setStep('review')}
+                      disabled={cors.step === 'applying'}
+                      className="px-3 py-1 text-xs border border-amber-300 text-amber-800 rounded hover:bg-amber-100"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => cors.setStep('confirm')}
+                    className="px-3 py-1 text-xs border border-amber-600 text-amber-800 rounded hover:bg-amber-100"
+                  >
+                    Add this rule...
+                  </button>
+                )}
+              </div>
+            ) : (
+              <p className="text-xs text-green-700 mt-2 flex items-center gap-1">
+                <CheckCircle2 className="w-3 h-3" />
+                {cors.plan.applied ? 'CORS rule applied; ' : ''}Uploads from {cors.plan.origin} are allowed.
+              </p>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CorsPanel;
@@ -0,0 +1,382 @@
+import React, { useState } from 'react';
+import { AlertCircle, CheckCircle2, Loader2, X, Copy, Check, RotateCcw, Pause, Play, Ban, Download } from 'lucide-react';
+import { postJson } from '../api';
+import type { ChecksumAlgorithm, ConflictAction, SignedRequest, UploadItem, UploadState } from '../types';
+
+interface JobPanelProps {
+  uploadState: UploadState;
+  // Request body fragment naming the storage target, for signing download links
+  target: object;
+  isPaused: boolean;
+  // Browser uploads can be paused and cancelled; server-side jobs run to the end
+  canControlQueue: boolean;
+  isCancellable: (itemId: string) => boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onCancelAll: () => void;
+  onCancelItem: (itemId: string) => void;
+  onRetry: (items: UploadItem[]) => void;
+  onRemove: (itemId: string) => void;
+  onClear: () => void;
+  onItemError: (itemId: string, message: string) => void;
+}
+
+const CONFLICT_ACTION_LABELS: Partial<Record<ConflictAction, string>> = {
+  overwritten: 'Overwritten',
+  skipped: 'Skipped (exists)',
+  renamed: 'Renamed'
+};
+
+const CHECKSUM_LABELS: Record<ChecksumAlgorithm, string> = {
+  md5: 'MD5',
+  sha256: 'SHA-256',
+  crc32c: 'CRC32C'
+};
+
+const LINK_EXPIRY_OPTIONS = [
+  { label: '1 hour', seconds: 3600 },
+  { label: '1 day', seconds: 24 * 3600 },
+  { label: '7 days', seconds: 7 * 24 * 3600 }
+];
+const COPIED_FEEDBACK_MS = 2000;
+
+// Same columns as the server's job report, so exports from either transfer mode line up
+const REPORT_COLUMNS = [
+  'url', 'key', 'provider', 'bucket', 'status', 'conflict', 'size', 'contentType', 'sha256', 'verifiedWith',
+  'error', 'attempts', 'startedAt', 'completedAt', 'durationMs', 'location'
+] as const;
+type ReportRow = Record<typeof REPORT_COLUMNS[number], string | number | null>;
+
+const toReportRow = (item: UploadItem): ReportRow => ({
+  url: item.url,
+  key: item.fileName ?? null,
+  provider: item.provider ?? null,
+  bucket: item.bucket ?? null,
+  status: item.status,
+  conflict: item.conflict ?? null,
+  size: item.size ?? null,
+  contentType: item.contentType ?? null,
+  sha256: item.checksums?.sha256 ?? null,
+  verifiedWith: item.verifiedWith ?? null,
+  error: item.error ?? null,
+  attempts: item.attempts ?? 0,
+  startedAt: item.startedAt ?? null,
+  completedAt: item.completedAt ?? null,
+  durationMs: item.startedAt && item.completedAt ? Date.parse(item.completedAt) - Date.parse(item.startedAt) : null,
+  location: item.location ?? null
+});
+
+// Quoted as RFC 4180 requires; cells spreadsheet apps would evaluate as formulas get a leading '
+const csvField = (value: string | number | null): string => {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: ReportRow[]): string =>
+  [REPORT_COLUMNS.join(','), ...rows.map(row => REPORT_COLUMNS.map(column => csvField(row[column])).join(','))]
+    .map(line => `${line}\r\n`)
+    .join('');
+
+const downloadFile = (fileName: string, content: string, type: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Progress, results and controls of the current batch, one row per item
+const JobPanel: React.FC<JobPanelProps> = ({
+  uploadState,
+  target,
+  isPaused,
+  canControlQueue,
+  isCancellable,
+  onPause,
+  onResume,
+  onCancelAll,
+  onCancelItem,
+  onRetry,
+  onRemove,
+  onClear,
+  onItemError
+}) => {
+  const [linkExpiresIn, setLinkExpiresIn] = useState(LINK_EXPIRY_OPTIONS[0]!.seconds);
+  const [forceDownload, setForceDownload] = useState(false);
+  const [copiedItemId, setCopiedItemId] = useState<string | null>(null);
+  const isDisabled = uploadState.isUploading;
+
+  // Sign a read URL for an uploaded object and put it on the clipboard
+  const copyLink = async (item: UploadItem): Promise<void> => {
+    if (!item.fileName) return;
+
+    try {
+      const signed = await postJson<SignedRequest>('/api/sign/download', {
+        fileName: item.fileName,
+        expiresIn: linkExpiresIn,
+        ...(forceDownload && {
+          contentDisposition: `attachment; filename="${item.fileName.split('/').pop()}"`
+        }),
+        ...target
+      }, 'Failed to create download link');
+
+      // Local storage links are relative to the app
+      await navigator.clipboard.writeText(new URL(signed.signedUrl, window.location.origin).toString());
+      setCopiedItemId(item.id);
+      setTimeout(() => setCopiedItemId(current => current === item.id ? null : current), COPIED_FEEDBACK_MS);
+    } catch (error) {
+      onItemError(item.id, error instanceof Error ? error.message : 'Failed to create download link');
+    }
+  };
+
+  // Everything in the results list; server-side jobs can also be exported with GET /api/jobs/:id/report
+  const exportReport = (format: 'csv' | 'json'): void => {
+    const rows = uploadState.items.map(toReportRow);
+    const fileName = `upload-report-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+    if (format === 'csv') {
+      downloadFile(fileName, toCsv(rows), 'text/csv');
+    } else {
+      downloadFile(fileName, JSON.stringify({ generatedAt: new Date().toISOString(), items: rows }, null, 2), 'application/json');
+    }
+  };
+
+  const overallProgress = uploadState.items.length === 0
+    ? 0
+    : Math.round(uploadState.items.reduce((sum, item) => sum + item.progress, 0) / uploadState.items.length);
+
+  const statusCounts = uploadState.items.reduce(
+    (acc, item) => {
+      acc[item.status]++;
+      return acc;
+    },
+    { pending: 0, uploading: 0, success: 0, error: 0, cancelled: 0 }
+  );
+
+  return (
+    <>
+      {/* Overall Progress */}
+      {uploadState.isUploading && uploadState.items.length > 1 && (
+        <div className="mt-6 space-y-2">
+          <div className="flex justify-between text-sm text-gray-600">
+            <span>Overall Progress</span>
+            <span>{overallProgress}%</span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${overallProgress}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Status Summary */}
+      {uploadState.items.length > 0 && (
+        <div className="mt-6 flex justify-between items-center">
+          <div className="flex gap-4 text-sm">
+            {statusCounts.success > 0 && (
+              <span className="text-green-600">✓ {statusCounts.success} completed</span>
+            )}
+            {statusCounts.uploading > 0 && (
+              <span className="text-blue-600">↑ {statusCounts.uploading} uploading</span>
+            )}
+            {statusCounts.error > 0 && (
+              <span className="text-red-600">✗ {statusCounts.error} failed</span>
+            )}
+            {statusCounts.cancelled > 0 && (
+              <span className="text-gray-500">⊘ {statusCounts.cancelled} cancelled</span>
+            )}
+          </div>
+          <div className="flex items-center gap-4">
+            {uploadState.isUploading && canControlQueue && (
+              <>
+                <button
+                  onClick={isPaused ? onResume : onPause}
+                  className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                  title={isPaused ? 'Start the queued uploads' : 'Let running uploads finish and hold the rest'}
+                >
+                  {isPaused ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+                  {isPaused ? 'Resume' : 'Pause'}
+                </button>
+                <button
+                  onClick={onCancelAll}
+                  className="flex items-center gap-1 text-sm text-red-600 hover:text-red-800"
+                >
+                  <Ban className="w-3 h-3" />
+                  Cancel all
+                </button>
+              </>
+            )}
+            {statusCounts.success > 0 && (
+              <div className="flex items-center gap-2 text-sm text-gray-500">
+                <span>Links expire in</span>
+                <select
+                  value={linkExpiresIn}
+                  onChange={(e) => setLinkExpiresIn(Number(e.target.value))}
+                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                >
+                  {LINK_EXPIRY_OPTIONS.map(option => (
+                    <option key={option.seconds} value={option.seconds}>{option.label}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={forceDownload}
+                    onChange={(e) => setForceDownload(e.target.checked)}
+                  />
+                  Force download
+                </label>
+              </div>
+            )}
+            {statusCounts.error + statusCounts.cancelled > 0 && (
+              <button
+                onClick={() => onRetry(uploadState.items)}
+                disabled={isDisabled}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+              >
+                <RotateCcw className="w-3 h-3" />
+                Retry failed
+              </button>
+            )}
+            {!uploadState.isUploading && (
+              <div className="flex items-center gap-2 text-sm">
+                <Download className="w-3 h-3 text-gray-500" />
+                {(['csv', 'json'] as const).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => exportReport(format)}
+                    className="text-blue-600 hover:text-blue-800"
+                    title="Download a report of every item"
+                  >
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={onClear}
+              disabled={isDisabled}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Clear All
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Upload Items */}
+      {uploadState.items.length > 0 && (
+        <div className="mt-6 space-y-3 max-h-96 overflow-y-auto">
+          {uploadState.items.map((item) => (
+            <div key={item.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2 flex-1 min-w-0">
+                  {item.status === 'uploading' && <Loader2 className="w-4 h-4 animate-spin text-blue-600" />}
+                  {item.status === 'success' && <CheckCircle2 className="w-4 h-4 text-green-600" />}
+                  {item.status === 'error' && <AlertCircle className="w-4 h-4 text-red-600" />}
+                  {item.status === 'cancelled' && <Ban className="w-4 h-4 text-gray-400" />}
+                  <span className="text-sm text-gray-700 truncate">{item.url}</span>
+                  {item.conflict && CONFLICT_ACTION_LABELS[item.conflict] && (
+                    <span
+                      className="shrink-0 px-2 py-0.5 rounded-full bg-gray-100 text-xs text-gray-600"
+                      title={item.fileName}
+                    >
+                      {CONFLICT_ACTION_LABELS[item.conflict]}
+                    </span>
+                  )}
+                  {item.contentType && (
+                    <span className="shrink-0 text-xs text-gray-500">{item.contentType}</span>
+                  )}
+                </div>
+                {item.status === 'success' && item.fileName && (
+                  <button
+                    onClick={() => copyLink(item)}
+                    className="flex items-center gap-1 mr-3 text-xs text-blue-600 hover:text-blue-800"
+                    title={`Copy a signed link to ${item.fileName}`}
+                  >
+                    {copiedItemId === item.id ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                    {copiedItemId === item.id ? 'Copied' : 'Copy link'}
+                  </button>
+                )}
+                {(item.status === 'pending' || item.status === 'uploading') && isCancellable(item.id) && (
+                  <button
+                    onClick={() => onCancelItem(item.id)}
+                    className="flex items-center gap-1 mr-3 text-xs text-red-600 hover:text-red-800"
+                  >
+                    <Ban className="w-3 h-3" />
+                    Cancel
+                  </button>
+                )}
+                {(item.status === 'error' || item.status === 'cancelled') && (
+                  <button
+                    onClick={() => onRetry([item])}
+                    disabled={isDisabled}
+                    className="flex items-center gap-1 mr-3 text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    Retry
+                  </button>
+                )}
+                <button
+                  onClick={() => onRemove(item.id)}
+                  disabled={item.status === 'uploading'}
+                  className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+
+              {item.status === 'uploading' && (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-xs text-gray-500">
+                    <span>Uploading...{item.attempts && item.attempts > 1 ? ` (attempt ${item.attempts})` : ''}</span>
+                    <span>{item.progress}%</span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-1">
+                    <div
+                      className="bg-blue-600 h-1 rounded-full transition-all duration-300"
+                      style={{ width: `${item.progress}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {item.checksums && (
+                <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                  <span
+                    className="font-mono truncate"
+                    title={(Object.keys(CHECKSUM_LABELS) as ChecksumAlgorithm[])
+                      .map(algorithm => `${CHECKSUM_LABELS[algorithm]} ${item.checksums?.[algorithm]}`)
+                      .join('\n')}
+                  >
+                    SHA-256 {item.checksums.sha256}
+                  </span>
+                  <span className={`shrink-0 ${item.verifiedWith ? 'text-green-600' : 'text-gray-400'}`}>
+                    {item.verifiedWith ? `Verified (${CHECKSUM_LABELS[item.verifiedWith]})` : 'Not verified by provider'}
+                  </span>
+                </div>
+              )}
+
+              {item.status === 'cancelled' && (
+                <p className="text-xs text-gray-500 mt-1">Cancelled</p>
+              )}
+
+              {item.error && (
+                <p className="text-xs text-red-600 mt-1">
+                  {item.error}
+                  {item.attempts && item.attempts > 1 ? ` (after ${item.attempts} attempts)` : ''}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default JobPanel;
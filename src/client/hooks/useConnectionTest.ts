@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from 'react';
+import { errorMessage } from '../api';
+import type { ConnectionTestResult } from '../types';
+
+/**
+ * Runs POST /api/providers/test against `target`, a `{ profile }` or
+ * `{ config }` request body fragment. The probe object goes under `prefix`,
+ * which credentials may be limited to. A failed request is reported as a
+ * failed credentials check rather than thrown.
+ */
+export const useConnectionTest = (target: object, prefix: string) => {
+  const [result, setResult] = useState<ConnectionTestResult | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  // A result only describes the configuration it was run against
+  useEffect(() => {
+    setResult(null);
+  }, [target]);
+
+  const runTest = useCallback(async (): Promise<ConnectionTestResult> => {
+    setIsTesting(true);
+    let outcome: ConnectionTestResult;
+    try {
+      const response = await fetch('/api/providers/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(prefix.trim() && { prefix: prefix.trim() }),
+          ...target
+        })
+      });
+      if (!response.ok) {
+        throw new Error(await errorMessage(response, `HTTP ${response.status}`));
+      }
+      outcome = await response.json();
+    } catch (error) {
+      outcome = {
+        ok: false,
+        checks: [{
+          id: 'credentials',
+          status: 'fail',
+          message: `Connection test failed: ${error instanceof Error ? error.message : 'unknown error'}`
+        }]
+      };
+    }
+    setResult(outcome);
+    setIsTesting(false);
+    return outcome;
+  }, [target, prefix]);
+
+  return { result, isTesting, runTest };
+};
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import { errorMessage } from '../api';
+import type { CorsPlan } from '../types';
+
+// `confirm` shows the write about to happen; nothing is applied before it is accepted
+export type CorsStep = 'idle' | 'loading' | 'review' | 'confirm' | 'applying';
+
+/**
+ * Reads the CORS rules of `target` (a `{ profile }` or `{ config }` request
+ * body fragment) and, once confirmed, adds the rule browser uploads need.
+ */
+export const useCorsPlan = (target: object) => {
+  const [plan, setPlan] = useState<CorsPlan | null>(null);
+  const [step, setStep] = useState<CorsStep>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  // A plan only describes the configuration it was read from
+  useEffect(() => {
+    setPlan(null);
+    setStep('idle');
+    setError(null);
+  }, [target]);
+
+  const postCors = useCallback(async (path: string, body: Record<string, unknown> = {}): Promise<CorsPlan> => {
+    const response = await fetch(`/api/providers/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...body, ...target })
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, `HTTP ${response.status}`));
+    }
+    return response.json();
+  }, [target]);
+
+  const check = useCallback(async (): Promise<void> => {
+    setStep('loading');
+    setError(null);
+    try {
+      setPlan(await postCors('cors'));
+    } catch (err) {
+      setPlan(null);
+      setError(err instanceof Error ? err.message : 'Failed to read the CORS configuration');
+    }
+    setStep('review');
+  }, [postCors]);
+
+  // Sends the fingerprint of the reviewed plan; if the rules changed meanwhile the server refuses and the plan is re-read
+  const apply = useCallback(async (): Promise<void> => {
+    if (!plan) return;
+    setStep('applying');
+    try {
+      setPlan(await postCors('cors/apply', { confirm: true, fingerprint: plan.fingerprint }));
+      setError(null);
+      setStep('review');
+    } catch (err) {
+      await check();
+      setError(err instanceof Error ? err.message : 'Failed to apply the CORS configuration');
+    }
+  }, [plan, postCors, check]);
+
+  return { plan, step, error, setStep, check, apply };
+};
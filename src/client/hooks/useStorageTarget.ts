@@ -0,0 +1,126 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { CloudConfig, S3Preset, StorageProfile } from '../types';
+
+// S3-compatible services; endpoints, addressing and checksums are resolved server-side
+export const S3_PRESETS: Record<S3Preset, { label: string; defaultRegion: string; endpointPlaceholder?: string }> = {
+  aws: { label: 'AWS S3', defaultRegion: 'us-east-1' },
+  r2: { label: 'Cloudflare R2', defaultRegion: 'auto' },
+  minio: { label: 'MinIO', defaultRegion: 'us-east-1', endpointPlaceholder: 'http://localhost:9000' },
+  b2: { label: 'Backblaze B2', defaultRegion: 'us-west-004' },
+  spaces: { label: 'DigitalOcean Spaces', defaultRegion: 'nyc3' }
+};
+
+const INITIAL_CONFIG: CloudConfig = {
+  provider: 's3',
+  s3: {
+    bucket: '',
+    region: 'us-east-1',
+    accessKeyId: '',
+    secretAccessKey: '',
+    sessionToken: '',
+    preset: 'aws',
+    endpoint: '',
+    accountId: ''
+  },
+  gcp: {
+    bucket: '',
+    projectId: '',
+    keyFile: ''
+  },
+  azure: {
+    accountName: '',
+    containerName: '',
+    accountKey: '',
+    sasToken: ''
+  },
+  local: {
+    bucket: ''
+  }
+};
+
+// A profile is always usable; inline credentials need the fields their provider requires
+const isConfigured = (cloudConfig: CloudConfig): boolean => {
+  if (cloudConfig.profile) return true;
+
+  switch (cloudConfig.provider) {
+    case 's3': {
+      const s3 = cloudConfig.s3;
+      const presetReady = s3?.preset === 'minio' ? !!s3.endpoint :
+                          s3?.preset === 'r2' ? !!(s3.accountId || s3.endpoint) :
+                          true;
+      return !!(s3?.bucket && s3?.accessKeyId && s3?.secretAccessKey && presetReady);
+    }
+    case 'gcp':
+      return !!(cloudConfig.gcp?.bucket && cloudConfig.gcp?.projectId && cloudConfig.gcp?.keyFile);
+    case 'azure': {
+      const azure = cloudConfig.azure;
+      return !!(azure?.accountName && azure?.containerName && (azure?.accountKey || azure?.sasToken));
+    }
+    case 'local':
+      return !!cloudConfig.local?.bucket;
+  }
+};
+
+const providerLabel = (cloudConfig: CloudConfig): string => {
+  if (cloudConfig.provider === 's3') {
+    return S3_PRESETS[cloudConfig.s3?.preset ?? 'aws'].label;
+  }
+  return cloudConfig.provider === 'gcp' ? 'GCP Storage' :
+         cloudConfig.provider === 'azure' ? 'Azure Blob' :
+         'Local Storage';
+};
+
+/**
+ * The destination uploads go to: inline credentials being edited or a storage
+ * profile the server holds credentials for, along with the profiles and
+ * providers the server offers.
+ */
+export const useStorageTarget = () => {
+  const [cloudConfig, setCloudConfig] = useState<CloudConfig>(INITIAL_CONFIG);
+  const [profiles, setProfiles] = useState<StorageProfile[]>([]);
+  const [inlineCredentialsAllowed, setInlineCredentialsAllowed] = useState(true);
+  const [availableProviders, setAvailableProviders] = useState<CloudConfig['provider'][]>(['s3', 'gcp', 'azure']);
+
+  // Load the storage profiles the server holds credentials for
+  useEffect(() => {
+    fetch('/api/profiles')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then(data => {
+        setProfiles(data.profiles);
+        setInlineCredentialsAllowed(data.inlineCredentialsAllowed);
+        setAvailableProviders(data.providers);
+      })
+      .catch(error => console.error('Failed to load storage profiles:', error));
+  }, []);
+
+  // Request body fragment identifying the storage target: a profile name or inline config.
+  // Stable between renders so the bucket browser only reloads when the target changes
+  const configPayload = useMemo(() => cloudConfig.profile
+    ? { profile: cloudConfig.profile }
+    : {
+        config: {
+          provider: cloudConfig.provider,
+          ...cloudConfig[cloudConfig.provider]
+        }
+      }, [cloudConfig]);
+
+  const selectedProfile = profiles.find(p => p.name === cloudConfig.profile);
+
+  // Bucket or container the uploads go to, for results and reports
+  const targetName = selectedProfile?.target
+    ?? (cloudConfig.provider === 'azure' ? cloudConfig.azure?.containerName : cloudConfig[cloudConfig.provider]?.bucket)
+    ?? '';
+
+  return {
+    cloudConfig,
+    setCloudConfig,
+    profiles,
+    inlineCredentialsAllowed,
+    availableProviders,
+    configPayload,
+    selectedProfile,
+    targetName,
+    isConfigured: isConfigured(cloudConfig),
+    providerLabel: providerLabel(cloudConfig)
+  };
+};
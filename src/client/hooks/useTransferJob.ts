@@ -0,0 +1,125 @@
+import { useCallback, useEffect } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { errorMessage, postJson } from '../api';
+import type { ManifestEntry, TransferJob, UploadState } from '../types';
+
+const ACTIVE_JOB_STORAGE_KEY = 'cloudUploader.activeJobId';
+const JOB_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Server-side transfer jobs shown in the upload list. The active job's ID is
+ * kept in localStorage so a reloaded tab picks up where it left off; the work
+ * itself runs on the server.
+ */
+export const useTransferJob = (setUploadState: Dispatch<SetStateAction<UploadState>>) => {
+  const applyJobItems = useCallback((job: TransferJob): void => {
+    setUploadState(prev => ({
+      ...prev,
+      items: job.items.map(item => ({
+        id: `${job.id}-${item.id}`,
+        url: item.url,
+        status: item.status,
+        progress: item.progress,
+        error: item.error,
+        fileName: item.fileName,
+        conflict: item.conflict,
+        contentType: item.contentType,
+        checksums: item.checksums,
+        verifiedWith: item.verifiedWith,
+        attempts: item.attempts,
+        provider: job.provider,
+        bucket: job.target,
+        size: item.size,
+        location: item.location,
+        startedAt: item.startedAt,
+        completedAt: item.completedAt,
+        jobId: job.id,
+        jobItemId: item.id
+      }))
+    }));
+  }, [setUploadState]);
+
+  // Poll a job until it completes
+  const pollJob = useCallback(async (jobId: string): Promise<void> => {
+    try {
+      for (;;) {
+        const response = await fetch(`/api/jobs/${jobId}`);
+        if (!response.ok) {
+          throw new Error(await errorMessage(response, 'Failed to fetch job status'));
+        }
+
+        const job: TransferJob = await response.json();
+        applyJobItems(job);
+        if (job.status === 'completed') return;
+
+        await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      }
+    } finally {
+      localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    }
+  }, [applyJobItems]);
+
+  // Submits the entries as one job with the batch `options` and follows it to the end
+  const runJob = useCallback(async (entries: ManifestEntry[], options: object): Promise<void> => {
+    setUploadState({
+      items: entries.map(({ url }, index) => ({
+        id: `${Date.now()}-${index}`,
+        url,
+        status: 'pending' as const,
+        progress: 0
+      })),
+      isUploading: true
+    });
+
+    try {
+      const response = await fetch('/api/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items: entries, ...options })
+      });
+
+      if (!response.ok) {
+        throw new Error(await errorMessage(response, 'Failed to submit transfer job'));
+      }
+
+      const { jobId, job } = await response.json();
+      localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, jobId);
+      applyJobItems(job);
+      await pollJob(jobId);
+    } catch (error) {
+      setUploadState(prev => ({
+        ...prev,
+        items: prev.items.map(i =>
+          i.status === 'success' ? i : {
+            ...i,
+            status: 'error',
+            progress: 0,
+            error: error instanceof Error ? error.message : 'Transfer job failed'
+          }
+        )
+      }));
+    }
+
+    setUploadState(prev => ({ ...prev, isUploading: false }));
+  }, [setUploadState, applyJobItems, pollJob]);
+
+  // Queues failed items of a job again on the server and follows the job until it completes
+  const retryJobItems = useCallback(async (jobId: string, itemIds: (string | undefined)[]): Promise<void> => {
+    await postJson(`/api/jobs/${jobId}/retry`, { itemIds }, 'Failed to retry job items');
+    localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, jobId);
+    await pollJob(jobId);
+  }, [pollJob]);
+
+  // Reattach to a job that was running when the tab was closed
+  useEffect(() => {
+    const jobId = localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+    if (!jobId) return;
+
+    setUploadState(prev => ({ ...prev, isUploading: true }));
+    pollJob(jobId)
+      .catch(error => console.error('Job polling error:', error))
+      .finally(() => setUploadState(prev => ({ ...prev, isUploading: false })));
+  }, [setUploadState, pollJob]);
+
+  return { runJob, retryJobItems };
+};
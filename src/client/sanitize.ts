@@ -0,0 +1,33 @@
+// Input clean-up shared by the upload form and the storage settings
+
+export const sanitizeInput = (input: string): string => {
+  return input.trim().replace(/[<>'"&]/g, '');
+};
+
+export const sanitizeUrl = (url: string): string => {
+  return url.trim().replace(/[<>'"]/g, '');
+};
+
+export const isValidUrl = (url: string): boolean => {
+  try {
+    const parsed = new URL(url);
+    return ['http:', 'https:'].includes(parsed.protocol);
+  } catch {
+    return false;
+  }
+};
+
+export const sanitizeFileName = (fileName: string): string => {
+  return fileName
+    .replace(/[^a-zA-Z0-9._-]/g, '_')
+    .replace(/_{2,}/g, '_')
+    .substring(0, 255);
+};
+
+// Comma- or newline-separated list; anything that is not an http(s) URL is dropped
+export const parseUrls = (input: string): string[] => {
+  return input
+    .split(/[,\n\r]+/)
+    .map(sanitizeUrl)
+    .filter(url => url && isValidUrl(url));
+};
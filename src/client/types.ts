@@ -0,0 +1,168 @@
+// Shapes shared by the uploader's components and hooks; most mirror the server's request and response bodies
+
+export type S3Preset = 'aws' | 'r2' | 'minio' | 'b2' | 'spaces';
+
+export interface S3Config {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  preset?: S3Preset;
+  endpoint?: string;
+  accountId?: string; // Cloudflare R2
+  forcePathStyle?: boolean;
+}
+
+export interface GCPConfig {
+  bucket: string;
+  projectId: string;
+  keyFile: string; // service-account JSON key content
+}
+
+export interface AzureConfig {
+  accountName: string;
+  containerName: string;
+  accountKey?: string;
+  sasToken?: string;
+}
+
+// Development storage served by the app itself; the bucket is a directory on the server
+export interface LocalConfig {
+  bucket: string;
+}
+
+export interface CloudConfig {
+  provider: 's3' | 'gcp' | 'azure' | 'local';
+  profile?: string; // server-side storage profile; replaces the credentials below
+  s3?: S3Config;
+  gcp?: GCPConfig;
+  azure?: AzureConfig;
+  local?: LocalConfig;
+}
+
+// Signed request returned by the server; the client replays method and headers as given
+export interface SignedRequest {
+  signedUrl: string;
+  method: string;
+  headers: Record<string, string>;
+  expiresAt: string;
+}
+
+export type ConflictAction = 'created' | 'overwritten' | 'skipped' | 'renamed';
+
+// Hex digests computed while the server streamed the object into storage
+export type ChecksumAlgorithm = 'md5' | 'sha256' | 'crc32c';
+export type Checksums = Record<ChecksumAlgorithm, string>;
+
+// Stored object properties; the server merges them over the profile's defaults
+export interface ObjectOptions {
+  cacheControl?: string;
+  contentDisposition?: string;
+  metadata?: Record<string, string>;
+  tags?: Record<string, string>;
+  storageClass?: string;
+  kmsKeyId?: string;
+}
+
+export type SourceAuth =
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'bearer'; token: string };
+
+// How the source is requested, for a whole batch or one manifest row
+export interface SourceOptions {
+  headers?: Record<string, string>;
+  cookies?: Record<string, string>; // server-side transfers only; browsers refuse to set Cookie
+  auth?: SourceAuth;
+  timeoutMs?: number;
+  maxRedirects?: number;
+}
+
+// One source with its own options; the server validates the same fields
+export interface ManifestEntry extends SourceOptions {
+  url: string;
+  key?: string; // replaces the key template; the prefix still applies
+  contentType?: string; // stands in for the type the source declares
+  metadata?: Record<string, string>; // merged over the batch's metadata
+}
+
+export interface StorageProfile {
+  name: string;
+  description?: string;
+  provider: CloudConfig['provider'];
+  target: string;
+  keyTemplate?: string;
+  prefix?: string;
+  objectOptions?: ObjectOptions;
+}
+
+export interface UploadItem {
+  id: string;
+  url: string;
+  status: 'pending' | 'uploading' | 'success' | 'error' | 'cancelled';
+  progress: number;
+  error?: string;
+  fileName?: string; // object key once uploaded
+  conflict?: ConflictAction;
+  contentType?: string;
+  checksums?: Checksums;
+  verifiedWith?: ChecksumAlgorithm; // the digest the storage service checked
+  attempts?: number; // every try, including automatic retries
+  jobId?: string; // server-side job items are retried through the job
+  jobItemId?: string;
+  entry?: Omit<ManifestEntry, 'url'>; // per-row options from an imported manifest
+  // Recorded for the results report
+  provider?: CloudConfig['provider'];
+  bucket?: string;
+  size?: number;
+  location?: string; // s3://, gs:// or local:// URI, or the Azure blob URL
+  startedAt?: string; // the latest try; a retried item is timed again
+  completedAt?: string;
+}
+
+export interface UploadState {
+  items: UploadItem[];
+  isUploading: boolean;
+}
+
+// Result of POST /api/providers/test, shown in the configuration dialog
+export type ConnectionCheckStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface ConnectionCheck {
+  id: 'credentials' | 'bucket' | 'write' | 'cors';
+  status: ConnectionCheckStatus;
+  message: string;
+}
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  checks: ConnectionCheck[];
+}
+
+// Bucket CORS rules as the server reports them, in the same shape for every provider
+export interface CorsRule {
+  origins: string[];
+  methods: string[];
+  allowedHeaders: string[];
+  exposeHeaders: string[];
+  maxAgeSeconds?: number;
+}
+
+// Result of POST /api/providers/cors; `proposed` is set when the rules need the required one added
+export interface CorsPlan {
+  origin: string;
+  rules: CorsRule[];
+  required: CorsRule;
+  missing?: { methods: string[]; allowedHeaders: string[]; exposeHeaders: string[] };
+  proposed?: CorsRule[];
+  fingerprint: string;
+  applied?: boolean;
+}
+
+export interface TransferJob {
+  id: string;
+  status: 'queued' | 'running' | 'completed';
+  provider: CloudConfig['provider'];
+  target?: string; // bucket or container
+  items: UploadItem[];
+}
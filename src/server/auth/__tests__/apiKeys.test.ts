@@ -0,0 +1,63 @@
+import { mkdtemp, readFile, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { ApiKeyStore } from '../apiKeys.js';
+
+describe('ApiKeyStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'api-keys-'));
+    filePath = path.join(dir, 'keys.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('verifies a created key and stores only its hash, readable by the owner only', async () => {
+    const store = new ApiKeyStore(filePath);
+    const { key, token } = await store.create('deploy', ['upload', 'jobs'], 'session:admin@example.com');
+
+    expect(token).toMatch(/^suk_[0-9a-f]{12}_[A-Za-z0-9_-]{43}$/);
+    expect(await store.verify(token)).toMatchObject({ id: key.id, name: 'deploy', scopes: ['upload', 'jobs'] });
+
+    const raw = await readFile(filePath, 'utf8');
+    expect(raw).not.toContain(token.split('_')[2]);
+    expect((await stat(filePath)).mode & 0o777).toBe(0o600);
+  });
+
+  it('rejects unknown, tampered and malformed keys', async () => {
+    const store = new ApiKeyStore(filePath);
+    const { token } = await store.create('deploy', ['upload']);
+    const last = token.slice(-1) === 'A' ? 'B' : 'A';
+
+    expect(await store.verify(`${token.slice(0, -1)}${last}`)).toBeUndefined();
+    expect(await store.verify(token.replace(/^suk_[0-9a-f]{12}/, 'suk_000000000000'))).toBeUndefined();
+    expect(await store.verify('not-a-key')).toBeUndefined();
+  });
+
+  it('stops accepting a revoked key but keeps its record', async () => {
+    const store = new ApiKeyStore(filePath);
+    const { key, token } = await store.create('deploy', ['upload']);
+
+    const revoked = await store.revoke(key.id);
+    expect(revoked?.revokedAt).toBeDefined();
+    expect(await store.verify(token)).toBeUndefined();
+    expect((await store.list()).map(({ id }) => id)).toEqual([key.id]);
+    expect(await store.revoke('000000000000')).toBeUndefined();
+  });
+
+  it('picks up keys revoked by another process through the file', async () => {
+    const server = new ApiKeyStore(filePath);
+    const { key, token } = await server.create('deploy', ['upload']);
+    expect(await server.verify(token)).toBeDefined();
+
+    // Stands in for the CLI; mtime resolution can hide a write in the same millisecond
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await new ApiKeyStore(filePath).revoke(key.id);
+
+    expect(await server.verify(token)).toBeUndefined();
+  });
+});
@@ -0,0 +1,72 @@
+import type { Request, Response } from 'express';
+import { endSession, readCookie, SESSION_COOKIE, sessionIdentity, startSession } from '../sessions.js';
+import type { Identity } from '../types.js';
+
+const alice: Identity = { type: 'session', id: 'sub-alice', name: 'alice@example.com', scopes: ['upload'] };
+
+const requestWith = (cookie: string | undefined) =>
+  ({ get: (name: string) => (name.toLowerCase() === 'cookie' ? cookie : undefined) }) as unknown as Request;
+
+// Records the cookie the session code sets, as a browser would keep it
+const fakeResponse = () => {
+  const jar: { value?: string | undefined; options?: Record<string, unknown> } = {};
+  const res = {
+    cookie: (name: string, value: string, options: Record<string, unknown>) => {
+      if (name === SESSION_COOKIE) Object.assign(jar, { value, options });
+      return res;
+    },
+    clearCookie: (name: string) => {
+      if (name === SESSION_COOKIE) jar.value = undefined;
+      return res;
+    },
+  };
+  return { res: res as unknown as Response, jar };
+};
+
+describe('readCookie', () => {
+  it('reads and decodes one cookie among several', () => {
+    expect(readCookie(requestWith('a=1; uploader_session=x%2By; b=2'), SESSION_COOKIE)).toBe('x+y');
+    expect(readCookie(requestWith('a=1'), SESSION_COOKIE)).toBeUndefined();
+    expect(readCookie(requestWith(undefined), SESSION_COOKIE)).toBeUndefined();
+  });
+
+  it('treats a value that is not valid percent-encoding as absent', () => {
+    expect(readCookie(requestWith('uploader_session=%E0'), SESSION_COOKIE)).toBeUndefined();
+    expect(sessionIdentity(requestWith('uploader_session=%E0'))).toBeUndefined();
+  });
+});
+
+describe('sessions', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('identifies the browser holding the session cookie until it signs out', () => {
+    const { res, jar } = fakeResponse();
+    startSession(res, alice);
+
+    expect(jar.options).toMatchObject({ httpOnly: true, sameSite: 'lax' });
+    const req = requestWith(`${SESSION_COOKIE}=${jar.value}`);
+    expect(sessionIdentity(req)).toEqual(alice);
+
+    endSession(req, res);
+    expect(jar.value).toBeUndefined();
+    expect(sessionIdentity(req)).toBeUndefined();
+  });
+
+  it('does not accept unknown session IDs', () => {
+    expect(sessionIdentity(requestWith(`${SESSION_COOKIE}=made-up`))).toBeUndefined();
+  });
+
+  it('expires sessions after SESSION_TTL_HOURS', () => {
+    jest.useFakeTimers({ now: Date.now() });
+    const { res, jar } = fakeResponse();
+    startSession(res, alice);
+    const req = requestWith(`${SESSION_COOKIE}=${jar.value}`);
+
+    jest.setSystemTime(Date.now() + 11 * 3600 * 1000);
+    expect(sessionIdentity(req)).toEqual(alice);
+    jest.setSystemTime(Date.now() + 2 * 3600 * 1000);
+    expect(sessionIdentity(req)).toBeUndefined();
+  });
+});
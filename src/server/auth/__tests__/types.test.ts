@@ -0,0 +1,39 @@
+import { actorOf, canAccess, hasScope } from '../types.js';
+import type { Identity } from '../types.js';
+
+const owner: Identity = { type: 'api-key', id: 'key-1', name: 'ci', scopes: ['jobs'] };
+const other: Identity = { type: 'api-key', id: 'key-2', name: 'other', scopes: ['jobs'] };
+const admin: Identity = { type: 'session', id: 'sub-admin', name: 'admin@example.com', scopes: ['admin'] };
+const anonymous: Identity = { type: 'anonymous', id: 'anonymous', name: 'anonymous', scopes: [] };
+
+describe('hasScope', () => {
+  it('grants listed scopes, and every scope to admins', () => {
+    expect(hasScope(owner, 'jobs')).toBe(true);
+    expect(hasScope(owner, 'objects')).toBe(false);
+    expect(hasScope(admin, 'objects')).toBe(true);
+  });
+});
+
+describe('canAccess', () => {
+  const createdBy = actorOf(owner);
+
+  it('admits the owner and admins', () => {
+    expect(canAccess(owner, createdBy)).toBe(true);
+    expect(canAccess(admin, createdBy)).toBe(true);
+  });
+
+  it('refuses other callers, including anonymous ones', () => {
+    expect(canAccess(other, createdBy)).toBe(false);
+    expect(canAccess(anonymous, createdBy)).toBe(false);
+    expect(canAccess(undefined, createdBy)).toBe(false);
+  });
+
+  it('does not confuse a session with an API key that has the same ID', () => {
+    expect(canAccess({ ...owner, type: 'session' }, createdBy)).toBe(false);
+  });
+
+  it('shares things without an owner', () => {
+    expect(canAccess(anonymous, undefined)).toBe(true);
+    expect(canAccess(other, undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,120 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { logger } from '../utils/logger.js';
+import type { Scope } from './types.js';
+
+export interface StoredApiKey {
+  id: string;
+  name: string;
+  scopes: Scope[];
+  // SHA-256 of the secret; the secret itself is shown once, when the key is created
+  hash: string;
+  createdAt: string;
+  // Who created the key, e.g. "session:alice@example.com"; absent for keys made with the CLI
+  createdBy?: string;
+  revokedAt?: string;
+}
+
+// "suk_<12 hex id>_<43 base64url secret>"; the ID finds the stored key without a scan
+const KEY_PATTERN = /^suk_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+
+// Secrets are 256 random bits, so a fast hash is enough; there is nothing to brute-force
+const hashSecret = (secret: string): string => createHash('sha256').update(secret).digest('hex');
+
+/**
+ * API keys for automation, kept in a JSON file. The file is read again
+ * whenever it changes on disk, so keys created or revoked with the CLI take
+ * effect without a restart. Writes are atomic and serialized, as for jobs.
+ */
+export class ApiKeyStore {
+  private keys = new Map<string, StoredApiKey>();
+  private loadedMtime: number | undefined;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private async refresh(): Promise<void> {
+    let mtime: number;
+    try {
+      mtime = (await fs.stat(this.filePath)).mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      this.keys = new Map();
+      this.loadedMtime = undefined;
+      return;
+    }
+    if (mtime === this.loadedMtime) return;
+
+    const keys = JSON.parse(await fs.readFile(this.filePath, 'utf8')) as StoredApiKey[];
+    this.keys = new Map(keys.map((key) => [key.id, key]));
+    this.loadedMtime = mtime;
+  }
+
+  private persist(): Promise<void> {
+    this.writeChain = this.writeChain.then(async () => {
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      // Only hashes are stored, but names and scopes are still nobody else's business
+      await fs.writeFile(tmpPath, JSON.stringify([...this.keys.values()], null, 2), { mode: 0o600 });
+      await fs.rename(tmpPath, this.filePath);
+      this.loadedMtime = (await fs.stat(this.filePath)).mtimeMs;
+    });
+    return this.writeChain;
+  }
+
+  async list(): Promise<StoredApiKey[]> {
+    await this.refresh();
+    return [...this.keys.values()];
+  }
+
+  // Resolves to the stored key and the full key string, which is never stored
+  async create(name: string, scopes: Scope[], createdBy?: string): Promise<{ key: StoredApiKey; token: string }> {
+    await this.refresh();
+    const id = randomBytes(6).toString('hex');
+    const secret = randomBytes(32).toString('base64url');
+    const key: StoredApiKey = {
+      id,
+      name,
+      scopes,
+      hash: hashSecret(secret),
+      createdAt: new Date().toISOString(),
+      ...(createdBy && { createdBy }),
+    };
+
+    this.keys.set(id, key);
+    await this.persist();
+    logger.info('API key created', { keyId: id, name, scopes, createdBy });
+    return { key, token: `suk_${id}_${secret}` };
+  }
+
+  // Revoked keys are kept so logs and jobs that name them stay traceable
+  async revoke(id: string): Promise<StoredApiKey | undefined> {
+    await this.refresh();
+    const key = this.keys.get(id);
+    if (!key) return undefined;
+
+    if (!key.revokedAt) {
+      key.revokedAt = new Date().toISOString();
+      await this.persist();
+      logger.info('API key revoked', { keyId: id, name: key.name });
+    }
+    return key;
+  }
+
+  // The stored key for a presented key string, unless it is unknown, malformed or revoked
+  async verify(token: string): Promise<StoredApiKey | undefined> {
+    const match = KEY_PATTERN.exec(token);
+    if (!match) return undefined;
+
+    await this.refresh();
+    const key = this.keys.get(match[1] ?? '');
+    if (!key || key.revokedAt) return undefined;
+
+    const presented = Buffer.from(hashSecret(match[2] ?? ''), 'hex');
+    const stored = Buffer.from(key.hash, 'hex');
+    return presented.length === stored.length && timingSafeEqual(presented, stored) ? key : undefined;
+  }
+}
+
+export const apiKeyStore = new ApiKeyStore(process.env.API_KEYS_PATH || 'data/api-keys.json');
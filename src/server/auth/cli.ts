@@ -0,0 +1,64 @@
+import { apiKeyStore } from './apiKeys.js';
+import { SCOPES } from './types.js';
+import type { Scope } from './types.js';
+
+/**
+ * Manages API keys from a shell, for the first admin key and for servers
+ * without a browser sign-in:
+ *
+ *   npm run api-keys -- create <name> <scope,scope>
+ *   npm run api-keys -- list
+ *   npm run api-keys -- revoke <id>
+ */
+const usage = `Usage:
+  api-keys create <name> <scopes>   scopes is a comma-separated list of ${SCOPES.join(', ')}
+  api-keys list
+  api-keys revoke <id>`;
+
+// A declaration rather than an arrow function, so TypeScript narrows after calls to it
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+const parseScopes = (value: string | undefined): Scope[] => {
+  const scopes = (value ?? '').split(',').map((scope) => scope.trim()).filter(Boolean);
+  const unknown = scopes.filter((scope) => !(SCOPES as readonly string[]).includes(scope));
+  if (scopes.length === 0 || unknown.length > 0) {
+    fail(unknown.length > 0 ? `Unknown scope: ${unknown.join(', ')}\n\n${usage}` : usage);
+  }
+  return scopes as Scope[];
+};
+
+const [command, ...args] = process.argv.slice(2);
+
+switch (command) {
+  case 'create': {
+    const [name, scopes] = args;
+    if (!name) fail(usage);
+    const { key, token } = await apiKeyStore.create(name, parseScopes(scopes));
+    console.log(`Created ${key.id} (${key.name}) with scopes ${key.scopes.join(', ')}`);
+    console.log('Store this key now; it cannot be shown again:');
+    console.log(token);
+    break;
+  }
+  case 'list': {
+    const keys = await apiKeyStore.list();
+    if (keys.length === 0) console.log('No API keys');
+    for (const key of keys) {
+      const status = key.revokedAt ? `revoked ${key.revokedAt}` : 'active';
+      console.log(`${key.id}  ${key.name}  [${key.scopes.join(',')}]  created ${key.createdAt}  ${status}`);
+    }
+    break;
+  }
+  case 'revoke': {
+    const [id] = args;
+    if (!id) fail(usage);
+    const key = await apiKeyStore.revoke(id);
+    if (!key) fail(`API key ${id} not found`);
+    console.log(`Revoked ${key.id} (${key.name})`);
+    break;
+  }
+  default:
+    fail(usage);
+}
@@ -0,0 +1,120 @@
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'node:crypto';
+import type { KeyObject } from 'node:crypto';
+import { AppError } from '../utils/errors.js';
+
+/**
+ * A stand-in OpenID provider served by this app, for development and tests.
+ * It signs in whoever asks, as OIDC_MOCK_USER or the `login_hint` email,
+ * without a password, so it is never enabled in production.
+ */
+export const MOCK_ISSUER_ROUTE = '/api/auth/mock';
+
+const CODE_TTL_MS = 60_000;
+const ID_TOKEN_TTL_SECONDS = 3600;
+
+export const mockOidcEnabled = (): boolean =>
+  process.env.OIDC_MOCK === 'true' && process.env.NODE_ENV !== 'production';
+
+// The server fetches tokens and keys from here itself, so the default is its own port
+export const mockIssuerUrl = (): string =>
+  process.env.OIDC_MOCK_ISSUER || `http://localhost:${process.env.PORT || 3001}${MOCK_ISSUER_ROUTE}`;
+
+interface MockGrant {
+  clientId: string;
+  redirectUri: string;
+  email: string;
+  nonce?: string | undefined;
+  codeChallenge?: string | undefined;
+  expiresAt: number;
+}
+
+const grants = new Map<string, MockGrant>();
+
+let signingKey: { privateKey: KeyObject; publicKey: KeyObject; kid: string } | undefined;
+
+// A fresh key per process; tokens from before a restart stop verifying, like sessions
+const getSigningKey = () => {
+  if (!signingKey) {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    signingKey = { privateKey, publicKey, kid: randomBytes(8).toString('hex') };
+  }
+  return signingKey;
+};
+
+export const mockJwks = () => {
+  const { publicKey, kid } = getSigningKey();
+  return { keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }] };
+};
+
+export const mockDiscovery = () => {
+  const issuer = mockIssuerUrl();
+  return {
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+  };
+};
+
+export const mockUser = (loginHint: unknown): string =>
+  typeof loginHint === 'string' && loginHint.includes('@')
+    ? loginHint.toLowerCase()
+    : process.env.OIDC_MOCK_USER || 'developer@example.com';
+
+export const issueMockCode = (grant: Omit<MockGrant, 'expiresAt'>): string => {
+  const now = Date.now();
+  for (const [code, pending] of grants) {
+    if (pending.expiresAt <= now) grants.delete(code);
+  }
+
+  const code = randomBytes(24).toString('base64url');
+  grants.set(code, { ...grant, expiresAt: now + CODE_TTL_MS });
+  return code;
+};
+
+const invalidGrant = (message: string) => new AppError('invalid_grant', message);
+
+// Codes are single use; the PKCE verifier must hash to the challenge sent to /authorize
+export const redeemMockCode = (
+  { code, clientId, redirectUri, codeVerifier }: { code: string; clientId: string; redirectUri: string; codeVerifier?: string | undefined }
+): MockGrant => {
+  const grant = grants.get(code);
+  grants.delete(code);
+
+  if (!grant || grant.expiresAt <= Date.now()) throw invalidGrant('The authorization code is unknown or expired');
+  if (grant.clientId !== clientId || grant.redirectUri !== redirectUri) {
+    throw invalidGrant('The authorization code was issued to another client or redirect URI');
+  }
+  if (grant.codeChallenge) {
+    const challenge = createHash('sha256').update(codeVerifier ?? '').digest('base64url');
+    if (challenge !== grant.codeChallenge) throw invalidGrant('The code verifier does not match the challenge');
+  }
+  return grant;
+};
+
+const encodeSegment = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+export const mockIdToken = (grant: MockGrant): string => {
+  const { privateKey, kid } = getSigningKey();
+  const now = Math.floor(Date.now() / 1000);
+  const signingInput = [
+    encodeSegment({ alg: 'RS256', typ: 'JWT', kid }),
+    encodeSegment({
+      iss: mockIssuerUrl(),
+      sub: `mock|${grant.email}`,
+      aud: grant.clientId,
+      email: grant.email,
+      email_verified: true,
+      name: grant.email.split('@')[0],
+      iat: now,
+      exp: now + ID_TOKEN_TTL_SECONDS,
+      ...(grant.nonce && { nonce: grant.nonce }),
+    }),
+  ].join('.');
+
+  return `${signingInput}.${sign('RSA-SHA256', Buffer.from(signingInput), privateKey).toString('base64url')}`;
+};
@@ -0,0 +1,261 @@
+import { createHash, createPublicKey, randomBytes, verify } from 'node:crypto';
+import type { JsonWebKey } from 'node:crypto';
+import { appOrigin } from '../storage/cors.js';
+import { AppError } from '../utils/errors.js';
+import { mockIssuerUrl, mockOidcEnabled } from './mockIssuer.js';
+import { SCOPES } from './types.js';
+import type { Identity, Scope } from './types.js';
+
+/**
+ * Browser sign-in with an OpenID Connect provider: the authorization code
+ * flow with PKCE, a nonce bound to the login attempt, and the ID token's
+ * RS256 signature checked against the provider's published keys.
+ */
+export interface OidcSettings {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string | undefined;
+  redirectUri: string;
+  // Granted to everyone who signs in
+  userScopes: Scope[];
+  // Emails or subjects, lower-cased, that are also granted `admin`
+  admins: string[];
+  // Email patterns such as "*@example.com"; empty admits anyone the provider signs in
+  allowedUsers: string[];
+}
+
+interface Discovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface IdTokenClaims {
+  iss?: unknown;
+  sub?: unknown;
+  aud?: unknown;
+  azp?: unknown;
+  exp?: unknown;
+  nonce?: unknown;
+  email?: unknown;
+  email_verified?: unknown;
+  name?: unknown;
+}
+
+interface PendingLogin {
+  nonce: string;
+  verifier: string;
+  returnTo: string;
+  expiresAt: number;
+}
+
+const LOGIN_TTL_MS = 10 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+
+const splitList = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+
+// OIDC_ISSUER and OIDC_CLIENT_ID enable sign-in; the mock issuer supplies both when enabled
+export const oidcSettings = (): OidcSettings | undefined => {
+  const env = process.env;
+  const issuer = env.OIDC_ISSUER || (mockOidcEnabled() ? mockIssuerUrl() : undefined);
+  const clientId = env.OIDC_CLIENT_ID || (mockOidcEnabled() ? 'uploader' : undefined);
+  if (!issuer || !clientId) return undefined;
+
+  return {
+    issuer,
+    clientId,
+    ...(env.OIDC_CLIENT_SECRET && { clientSecret: env.OIDC_CLIENT_SECRET }),
+    redirectUri: env.OIDC_REDIRECT_URI || `${appOrigin()}/api/auth/callback`,
+    userScopes: splitList(env.OIDC_USER_SCOPES || 'upload,jobs,objects')
+      .filter((scope): scope is Scope => (SCOPES as readonly string[]).includes(scope)),
+    admins: splitList(env.OIDC_ADMINS).map((admin) => admin.toLowerCase()),
+    allowedUsers: splitList(env.OIDC_ALLOWED_USERS).map((pattern) => pattern.toLowerCase()),
+  };
+};
+
+const loginFailed = (message: string, status = 400) => new AppError('LOGIN_FAILED', `Sign-in failed: ${message}`, status);
+
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  let response: globalThis.Response;
+  try {
+    response = await fetch(url, { ...init, headers: { Accept: 'application/json', ...init?.headers } });
+  } catch (error) {
+    throw loginFailed(`could not reach the identity provider (${error instanceof Error ? error.message : 'network error'})`, 502);
+  }
+  const body = await response.json().catch(() => ({})) as T & { error?: string; error_description?: string };
+  if (!response.ok) {
+    throw loginFailed(`${body.error_description || body.error || `HTTP ${response.status}`} from ${new URL(url).host}`, 502);
+  }
+  return body;
+};
+
+let discovery: { issuer: string; document: Promise<Discovery> } | undefined;
+let jwks: { uri: string; keys: (JsonWebKey & { kid?: string })[] } | undefined;
+
+const getDiscovery = (issuer: string): Promise<Discovery> => {
+  if (discovery?.issuer !== issuer) {
+    const document = fetchJson<Discovery>(`${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`);
+    discovery = { issuer, document };
+    // A failed lookup is retried by the next login
+    document.catch(() => {
+      if (discovery?.document === document) discovery = undefined;
+    });
+  }
+  return discovery.document;
+};
+
+// Keys are fetched again when a token names one not seen yet, which is how providers rotate
+const signingKey = async (uri: string, kid: string | undefined): Promise<JsonWebKey> => {
+  const find = () => jwks?.uri === uri
+    ? jwks.keys.find((key) => (kid ? key.kid === kid : key.kty === 'RSA'))
+    : undefined;
+
+  let key = find();
+  if (!key) {
+    jwks = { uri, keys: (await fetchJson<{ keys?: (JsonWebKey & { kid?: string })[] }>(uri)).keys ?? [] };
+    key = find();
+  }
+  if (!key) throw loginFailed('the ID token is signed with an unknown key');
+  return key;
+};
+
+const decodeSegment = (segment: string): Record<string, unknown> => {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as Record<string, unknown>;
+  } catch {
+    throw loginFailed('the ID token is malformed');
+  }
+};
+
+const verifyIdToken = async (token: string, settings: OidcSettings, provider: Discovery, nonce: string): Promise<IdTokenClaims> => {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) throw loginFailed('the ID token is malformed');
+
+  const { alg, kid } = decodeSegment(header);
+  if (alg !== 'RS256') throw loginFailed(`ID tokens signed with ${String(alg)} are not supported`);
+  const key = await signingKey(provider.jwks_uri, typeof kid === 'string' ? kid : undefined);
+  const valid = verify(
+    'RSA-SHA256',
+    Buffer.from(`${header}.${payload}`),
+    createPublicKey({ key, format: 'jwk' }),
+    Buffer.from(signature, 'base64url')
+  );
+  if (!valid) throw loginFailed('the ID token signature is not valid');
+
+  const claims = decodeSegment(payload) as IdTokenClaims;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== provider.issuer) throw loginFailed('the ID token is from another issuer');
+  if (!audiences.includes(settings.clientId) || (audiences.length > 1 && claims.azp !== settings.clientId)) {
+    throw loginFailed('the ID token is for another client');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < Date.now() / 1000) {
+    throw loginFailed('the ID token has expired');
+  }
+  if (claims.nonce !== nonce) throw loginFailed('the ID token does not belong to this sign-in');
+  if (typeof claims.sub !== 'string' || !claims.sub) throw loginFailed('the ID token names no subject');
+  return claims;
+};
+
+const emailMatches = (pattern: string, email: string): boolean =>
+  new RegExp(`^${pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`).test(email);
+
+const identityFor = (claims: IdTokenClaims, settings: OidcSettings): Identity => {
+  const subject = String(claims.sub);
+  // An address the provider has not verified could be anyone's
+  const email = typeof claims.email === 'string' && claims.email_verified !== false ? claims.email.toLowerCase() : undefined;
+
+  if (settings.allowedUsers.length > 0 && !(email && settings.allowedUsers.some((pattern) => emailMatches(pattern, email)))) {
+    throw new AppError('LOGIN_NOT_ALLOWED', `${email ?? subject} is not allowed to use this app`, 403);
+  }
+  const admin = settings.admins.includes(subject.toLowerCase()) || (email !== undefined && settings.admins.includes(email));
+
+  return {
+    type: 'session',
+    id: subject,
+    name: email ?? (typeof claims.name === 'string' ? claims.name : subject),
+    scopes: admin ? [...new Set<Scope>([...settings.userScopes, 'admin'])] : settings.userScopes,
+  };
+};
+
+// Logins waiting for the provider's redirect, by `state`
+const pendingLogins = new Map<string, PendingLogin>();
+
+// Only paths on this app, so the login cannot be used to redirect elsewhere
+const safeReturnTo = (value: unknown): string =>
+  typeof value === 'string' && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\') ? value : '/';
+
+/**
+ * Starts a sign-in and resolves to the provider URL to send the browser to.
+ * `returnTo` is where the callback sends the browser afterwards.
+ */
+export const beginLogin = async (settings: OidcSettings, returnTo: unknown): Promise<string> => {
+  const provider = await getDiscovery(settings.issuer);
+  const now = Date.now();
+  for (const [state, pending] of pendingLogins) {
+    if (pending.expiresAt <= now) pendingLogins.delete(state);
+  }
+
+  const state = randomBytes(16).toString('base64url');
+  const login: PendingLogin = {
+    nonce: randomBytes(16).toString('base64url'),
+    verifier: randomBytes(32).toString('base64url'),
+    returnTo: safeReturnTo(returnTo),
+    expiresAt: now + LOGIN_TTL_MS,
+  };
+  pendingLogins.set(state, login);
+
+  const url = new URL(provider.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: settings.clientId,
+    redirect_uri: settings.redirectUri,
+    scope: 'openid email profile',
+    state,
+    nonce: login.nonce,
+    code_challenge: createHash('sha256').update(login.verifier).digest('base64url'),
+    code_challenge_method: 'S256',
+  }).toString();
+  return url.toString();
+};
+
+/**
+ * Finishes a sign-in from the provider's redirect: redeems the code, checks
+ * the ID token and maps its claims to an identity.
+ */
+export const completeLogin = async (
+  settings: OidcSettings,
+  { code, state }: { code: string; state: string }
+): Promise<{ identity: Identity; returnTo: string }> => {
+  const login = pendingLogins.get(state);
+  pendingLogins.delete(state);
+  if (!login || login.expiresAt <= Date.now()) {
+    throw new AppError('LOGIN_EXPIRED', 'The sign-in attempt is unknown or has expired; sign in again');
+  }
+
+  const provider = await getDiscovery(settings.issuer);
+  // Confidential clients authenticate with HTTP Basic; public clients rely on PKCE alone
+  const tokens = await fetchJson<{ id_token?: string }>(provider.token_endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      ...(settings.clientSecret && {
+        Authorization: `Basic ${Buffer.from(
+          `${encodeURIComponent(settings.clientId)}:${encodeURIComponent(settings.clientSecret)}`
+        ).toString('base64')}`,
+      }),
+    },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: settings.redirectUri,
+      code_verifier: login.verifier,
+      ...(!settings.clientSecret && { client_id: settings.clientId }),
+    }).toString(),
+  });
+  if (!tokens.id_token) throw loginFailed('the identity provider returned no ID token', 502);
+
+  const claims = await verifyIdToken(tokens.id_token, settings, provider, login.nonce);
+  return { identity: identityFor(claims, settings), returnTo: login.returnTo };
+};
@@ -0,0 +1,75 @@
+import { randomBytes } from 'node:crypto';
+import type { Request, Response } from 'express';
+import type { Identity } from './types.js';
+
+export const SESSION_COOKIE = 'uploader_session';
+
+interface Session {
+  identity: Identity;
+  expiresAt: number;
+}
+
+/**
+ * Browser sessions, held in memory: a restart signs everyone out, which also
+ * means no session store to secure. The cookie carries only a random ID.
+ */
+const sessions = new Map<string, Session>();
+
+const sessionTtlMs = (): number => parseInt(process.env.SESSION_TTL_HOURS || '12') * 60 * 60 * 1000;
+
+const pruneExpired = (now: number): void => {
+  for (const [id, session] of sessions) {
+    if (session.expiresAt <= now) sessions.delete(id);
+  }
+};
+
+// Express parses no cookies without extra middleware; this app reads just the one.
+// A value that is not valid percent-encoding reads as no cookie rather than failing the request.
+export const readCookie = (req: Request, name: string): string | undefined => {
+  for (const pair of (req.get('Cookie') ?? '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(pair.slice(separator + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+};
+
+// Lax keeps the cookie off cross-site POSTs, so other sites cannot call the API as the user
+const cookieOptions = () => ({
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+});
+
+export const startSession = (res: Response, identity: Identity): void => {
+  const now = Date.now();
+  pruneExpired(now);
+
+  const id = randomBytes(32).toString('base64url');
+  sessions.set(id, { identity, expiresAt: now + sessionTtlMs() });
+  res.cookie(SESSION_COOKIE, id, { ...cookieOptions(), maxAge: sessionTtlMs() });
+};
+
+export const sessionIdentity = (req: Request): Identity | undefined => {
+  const id = readCookie(req, SESSION_COOKIE);
+  const session = id ? sessions.get(id) : undefined;
+  if (!session) return undefined;
+
+  if (session.expiresAt <= Date.now()) {
+    sessions.delete(id ?? '');
+    return undefined;
+  }
+  return session.identity;
+};
+
+export const endSession = (req: Request, res: Response): void => {
+  const id = readCookie(req, SESSION_COOKIE);
+  if (id) sessions.delete(id);
+  res.clearCookie(SESSION_COOKIE, cookieOptions());
+};
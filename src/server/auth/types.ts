@@ -0,0 +1,41 @@
+/**
+ * What a caller may do. Scopes follow the route groups: `upload` signs
+ * uploads and downloads and runs direct transfers, `jobs` submits and reads
+ * transfer and copy jobs, `objects` browses, renames and deletes objects, and
+ * `admin` covers everything, including bucket CORS changes and API keys.
+ */
+export const SCOPES = ['upload', 'jobs', 'objects', 'admin'] as const;
+
+export type Scope = typeof SCOPES[number];
+
+export interface Identity {
+  type: 'api-key' | 'session' | 'anonymous';
+  // API key ID, or the OIDC issuer's subject
+  id: string;
+  // API key name, or the user's email (or name) from the ID token
+  name: string;
+  scopes: Scope[];
+}
+
+// Who did something, as recorded on jobs and in logs
+export type Actor = Pick<Identity, 'type' | 'id' | 'name'>;
+
+export const actorOf = ({ type, id, name }: Identity): Actor => ({ type, id, name });
+
+export const hasScope = (identity: Identity, scope: Scope): boolean =>
+  identity.scopes.includes(scope) || identity.scopes.includes('admin');
+
+// Whether a caller may see something `owner` created: its owner and admins may; things without an owner are shared
+export const canAccess = (identity: Identity | undefined, owner: Actor | undefined): boolean =>
+  !owner
+  || (identity !== undefined && identity.type !== 'anonymous' && (
+    hasScope(identity, 'admin')
+    || (identity.type === owner.type && identity.id === owner.id)
+  ));
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    // Set by the authenticate middleware on every API request
+    identity?: Identity;
+  }
+}
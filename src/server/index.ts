@@ -1,19 +1,31 @@
+// Load environment variables before any module reads process.env
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
 import rateLimit from 'express-rate-limit';
-import dotenv from 'dotenv';
 import { logger } from './utils/logger.js';
 import { errorHandler } from './middleware/errorHandler.js';
 import { requestLogger } from './middleware/requestLogger.js';
-import { s3Routes } from './routes/s3.js';
-import { gcpRoutes } from './routes/gcp.js';
-import { azureRoutes } from './routes/azure.js';
+import { resolveProfile } from './middleware/resolveProfile.js';
+import { authenticate, authRequired, requireAuth } from './middleware/authenticate.js';
+import { signRoutes } from './routes/sign.js';
+import { transferRoutes } from './routes/transfers.js';
+import { jobRoutes } from './routes/jobs.js';
+import { jobQueue } from './jobs/queue.js';
 import { healthRoutes } from './routes/health.js';
-
-// Load environment variables
-dotenv.config();
+import { profileRoutes } from './routes/profiles.js';
+import { providerRoutes } from './routes/providers.js';
+import { keyRoutes } from './routes/keys.js';
+import { objectRoutes } from './routes/objects.js';
+import { localStorageRoutes } from './routes/localStorage.js';
+import { authRoutes } from './routes/auth.js';
+import { mockOidcRoutes } from './routes/mockOidc.js';
+import { MOCK_ISSUER_ROUTE, mockOidcEnabled } from './auth/mockIssuer.js';
+import { oidcSettings } from './auth/oidc.js';
+import { localStorageEnabled } from './providers/local.js';
+import { LOCAL_STORAGE_ROUTE } from './providers/localSigning.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -54,22 +66,45 @@ const limiter = rateLimit({
   legacyHeaders: false,
 });
 
+// Signed local-storage URLs are authorized by their signature; like requests to a
+// cloud provider they bypass the API rate limit and body parsing
+if (localStorageEnabled()) {
+  app.use(LOCAL_STORAGE_ROUTE, localStorageRoutes);
+}
+
 app.use('/api/', limiter);
 
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+// Identify the caller (API key, session or anonymous) before anything is logged
+app.use('/api/', authenticate);
+
 // Request logging
 app.use(requestLogger);
 
 // Health check route
 app.use('/api/health', healthRoutes);
 
-// API routes
-app.use('/api/s3-presigned-url', s3Routes);
-app.use('/api/gcp-signed-url', gcpRoutes);
-app.use('/api/azure-sas-url', azureRoutes);
+// Sign-in, sign-out and API key management; the development issuer never runs in production
+if (mockOidcEnabled()) {
+  app.use(MOCK_ISSUER_ROUTE, mockOidcRoutes);
+}
+app.use('/api/auth', authRoutes);
+
+// API routes, each behind the scope it needs
+app.use('/api/profiles', requireAuth(), profileRoutes);
+app.use('/api/providers', requireAuth('upload'), resolveProfile, providerRoutes);
+app.use('/api/keys', requireAuth('upload'), resolveProfile, keyRoutes);
+app.use('/api/sign', requireAuth('upload'), resolveProfile, signRoutes);
+// Per-provider paths kept for existing API clients; they dispatch on config.provider too
+app.use('/api/s3-presigned-url', requireAuth('upload'), resolveProfile, signRoutes);
+app.use('/api/gcp-signed-url', requireAuth('upload'), resolveProfile, signRoutes);
+app.use('/api/azure-sas-url', requireAuth('upload'), resolveProfile, signRoutes);
+app.use('/api/transfers', requireAuth('upload'), resolveProfile, transferRoutes);
+app.use('/api/jobs', requireAuth('jobs'), resolveProfile, jobRoutes);
+app.use('/api/objects', requireAuth('objects'), resolveProfile, objectRoutes);
 
 // Serve static files in production
 if (process.env.NODE_ENV === 'production') {
@@ -97,6 +132,19 @@ app.use('*', (req, res) => {
 app.listen(PORT, () => {
   logger.info(`Server running on port ${PORT}`);
   logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
+  logger.info('Authentication', {
+    required: authRequired(),
+    oidc: oidcSettings()?.issuer ?? false,
+    mockIssuer: mockOidcEnabled(),
+  });
+  if (process.env.NODE_ENV === 'production' && !authRequired()) {
+    logger.warn('AUTH_REQUIRED is off in production; anyone who can reach the API can use it');
+  }
+
+  // Resume transfer jobs interrupted by a previous shutdown
+  jobQueue.start().catch((error) => {
+    logger.error('Failed to start job queue', { error });
+  });
 });
 
 export default app; 
\ No newline at end of file
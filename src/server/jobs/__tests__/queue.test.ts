@@ -0,0 +1,52 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { JobQueue } from '../queue.js';
+import { JsonJobStore } from '../store.js';
+import type { Job } from '../types.js';
+
+describe('JobQueue', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'queue-'));
+    const profilesFile = path.join(dir, 'profiles.json');
+    await writeFile(profilesFile, JSON.stringify({ dev: { config: { provider: 'local', bucket: 'dev' } } }));
+    // Profiles load on first use
+    process.env.STORAGE_PROFILES_FILE = profilesFile;
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('fails resumed items whose source credentials were not persisted', async () => {
+    const filePath = path.join(dir, 'jobs.json');
+    const now = new Date().toISOString();
+    const stored: Job = {
+      id: 'job-1',
+      status: 'running',
+      concurrency: 1,
+      provider: 'local',
+      profile: 'dev',
+      items: [
+        { id: '0', url: 'https://example.com/a.jpg', status: 'uploading', progress: 40, sourceCredentialsDropped: true },
+      ],
+      createdAt: now,
+      updatedAt: now,
+    };
+    await writeFile(filePath, JSON.stringify([stored]));
+
+    const store = new JsonJobStore(filePath, { writeIntervalMs: 0 });
+    await new JobQueue(store, 1).start();
+    // Resumed jobs run in the background
+    for (let tries = 0; tries < 50 && store.get('job-1')?.status !== 'completed'; tries++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    expect(store.get('job-1')).toMatchObject({
+      status: 'completed',
+      items: [{ status: 'error', error: expect.stringMatching(/credentials are not persisted/) }],
+    });
+  });
+});
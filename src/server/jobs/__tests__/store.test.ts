@@ -0,0 +1,99 @@
+import { mkdtemp, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { JsonJobStore } from '../store.js';
+import type { Job } from '../types.js';
+
+const job = (overrides: Partial<Job> = {}): Job => ({
+  id: 'job-1',
+  status: 'running',
+  concurrency: 1,
+  provider: 's3',
+  config: {
+    provider: 's3',
+    bucket: 'assets',
+    region: 'us-east-1',
+    accessKeyId: 'AKIDEXAMPLE',
+    secretAccessKey: 'inline-secret',
+  },
+  source: { headers: { Authorization: 'Bearer source-token', Accept: 'image/*' }, cookies: { sid: 'cookie-secret' } },
+  items: [{ id: 'item-1', url: 'https://example.com/a.jpg', status: 'pending', progress: 0 }],
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  ...overrides,
+});
+
+describe('JsonJobStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'jobs-'));
+    filePath = path.join(dir, 'jobs.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes no credentials, with owner-only permissions, and keeps them in memory', async () => {
+    const store = new JsonJobStore(filePath, { writeIntervalMs: 0 });
+    await store.save(job());
+
+    const raw = await readFile(filePath, 'utf8');
+    expect(raw).not.toMatch(/inline-secret|source-token|cookie-secret/);
+    expect(JSON.parse(raw)[0].source).toEqual({ headers: { Accept: 'image/*' } });
+    expect((await stat(filePath)).mode & 0o777).toBe(0o600);
+    expect(store.get('job-1')?.config).toBeDefined();
+  });
+
+  it('flags jobs and items whose source credentials were left out', async () => {
+    const store = new JsonJobStore(filePath, { writeIntervalMs: 0 });
+    await store.save(job({
+      items: [
+        { id: 'item-1', url: 'https://example.com/a.jpg', status: 'pending', progress: 0, source: { auth: { type: 'bearer', token: 'item-token' } } },
+        { id: 'item-2', url: 'https://example.com/b.jpg', status: 'pending', progress: 0, source: { headers: { Accept: 'image/*' } } },
+      ],
+    }));
+
+    const [stored] = await new JsonJobStore(filePath).load();
+    expect(stored?.sourceCredentialsDropped).toBe(true);
+    expect(stored?.items.map((item) => item.sourceCredentialsDropped)).toEqual([true, undefined]);
+    expect(store.get('job-1')?.sourceCredentialsDropped).toBeUndefined();
+  });
+
+  it('coalesces saves within the write interval into one write', async () => {
+    const store = new JsonJobStore(filePath, { writeIntervalMs: 50 });
+    await store.save(job());
+
+    const saves = [store.save(job({ status: 'running' })), store.save(job({ status: 'completed' }))];
+    expect(saves[0]).toBe(saves[1]);
+    await Promise.all(saves);
+    expect(JSON.parse(await readFile(filePath, 'utf8'))[0].status).toBe('completed');
+  });
+
+  it('drops completed jobs past the retention period', async () => {
+    const old = new Date(Date.now() - 10 * 24 * 3600 * 1000).toISOString();
+    await writeFile(filePath, JSON.stringify([
+      job({ id: 'old-completed', status: 'completed', updatedAt: old }),
+      job({ id: 'old-running', status: 'running', updatedAt: old }),
+      job({ id: 'recent', status: 'completed' }),
+    ]));
+
+    const jobs = await new JsonJobStore(filePath, { retentionDays: 7 }).load();
+    expect(jobs.map(({ id }) => id).sort()).toEqual(['old-running', 'recent']);
+  });
+
+  it('moves a corrupt store aside instead of overwriting it', async () => {
+    await writeFile(filePath, '{"truncated');
+    const store = new JsonJobStore(filePath, { writeIntervalMs: 0 });
+
+    expect(await store.load()).toEqual([]);
+    await store.save(job());
+
+    const files = await readdir(dir);
+    const corrupt = files.find((name) => name.startsWith('jobs.json.corrupt-'));
+    expect(corrupt).toBeDefined();
+    expect(await readFile(path.join(dir, corrupt ?? ''), 'utf8')).toBe('{"truncated');
+  });
+});
@@ -0,0 +1,343 @@
+import { randomUUID } from 'node:crypto';
+import { transferUrl } from '../storage/transfer.js';
+import { copyObject, objectLocation } from '../storage/copy.js';
+import type { CopyPlanEntry } from '../storage/copy.js';
+import type { CloudConfig, ConflictPolicy, ObjectOptions, RetryPolicy, SourceEntry, SourceOptions } from '../storage/schemas.js';
+import { withMetadata } from '../storage/objectOptions.js';
+import { allowedContentTypesFor, describeTarget, getProfile, objectOptionsFor } from '../storage/profiles.js';
+import { AppError } from '../utils/errors.js';
+import { fileNameFromUrl } from '../utils/fileName.js';
+import { DEFAULT_RETRY_POLICY, withRetry } from '../utils/retry.js';
+import { entrySourceOptions, mergeSourceOptions } from '../utils/sourceOptions.js';
+import { logger } from '../utils/logger.js';
+import { JsonJobStore } from './store.js';
+import type { CopySource, Job, JobItem } from './types.js';
+import type { Actor } from '../auth/types.js';
+
+// Inline credentials are not persisted, so they are gone after a restart
+const missingConfig = (profile: string | undefined): string =>
+  profile
+    ? `Storage profile "${profile}" is no longer configured`
+    : 'The job was submitted with inline credentials, which are not kept across restarts; submit it again';
+
+const MISSING_SOURCE_CREDENTIALS = 'Source credentials are not persisted across restarts; submit the job again';
+
+export class JobQueue {
+  private readonly running = new Set<string>();
+
+  constructor(
+    private readonly store: JsonJobStore,
+    private readonly defaultConcurrency: number
+  ) {}
+
+  /**
+   * Loads persisted jobs and resumes any that were interrupted. Items that were
+   * mid-upload when the server stopped are retried from the start.
+   */
+  async start(): Promise<void> {
+    const jobs = await this.store.load();
+    const unfinished = jobs.filter((job) => job.status !== 'completed');
+
+    for (const job of unfinished) {
+      for (const item of job.items) {
+        if (item.status === 'uploading') {
+          item.status = 'pending';
+          item.progress = 0;
+        }
+      }
+      void this.run(job);
+    }
+
+    if (unfinished.length > 0) {
+      logger.info('Resumed transfer jobs', { count: unfinished.length });
+    }
+  }
+
+  async submit(
+    // Keys are already rendered; the remaining fields are the manifest row's options
+    sources: (SourceEntry & { key: string })[],
+    target: { config: CloudConfig; profile?: string | undefined },
+    options: {
+      concurrency?: number | undefined;
+      onConflict?: ConflictPolicy | undefined;
+      objectOptions?: ObjectOptions | undefined;
+      retry?: RetryPolicy | undefined;
+      source?: SourceOptions | undefined;
+      createdBy?: Actor | undefined;
+    } = {}
+  ): Promise<Job> {
+    const now = new Date().toISOString();
+    const job: Job = {
+      id: randomUUID(),
+      status: 'queued',
+      concurrency: options.concurrency ?? this.defaultConcurrency,
+      ...(options.onConflict && { onConflict: options.onConflict }),
+      ...(options.objectOptions && { objectOptions: options.objectOptions }),
+      ...(options.retry && { retry: options.retry }),
+      ...(options.source && { source: options.source }),
+      provider: target.config.provider,
+      target: describeTarget(target.config),
+      ...(target.profile ? { profile: target.profile } : { config: target.config }),
+      items: sources.map((entry, index) => {
+        const source = entrySourceOptions(entry);
+        return {
+          id: `${index}`,
+          url: entry.url,
+          status: 'pending',
+          progress: 0,
+          fileName: entry.key,
+          ...(entry.contentType && { declaredContentType: entry.contentType }),
+          ...(entry.metadata && { metadata: entry.metadata }),
+          ...(source && { source }),
+        };
+      }),
+      ...(options.createdBy && { createdBy: options.createdBy }),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.save(job);
+    void this.run(job);
+
+    logger.info('Transfer job submitted', {
+      jobId: job.id,
+      items: job.items.length,
+      provider: job.provider,
+      createdBy: job.createdBy,
+    });
+    return job;
+  }
+
+  /**
+   * Queues a copy of the planned objects from one bucket into another. Each
+   * item's `url` is the source object's location, for reports.
+   */
+  async submitCopy(
+    objects: CopyPlanEntry[],
+    from: { config: CloudConfig; profile?: string | undefined; prefix: string; native: boolean },
+    target: { config: CloudConfig; profile?: string | undefined },
+    options: {
+      concurrency?: number | undefined;
+      onConflict?: ConflictPolicy | undefined;
+      retry?: RetryPolicy | undefined;
+      createdBy?: Actor | undefined;
+    } = {}
+  ): Promise<Job> {
+    const now = new Date().toISOString();
+    const job: Job = {
+      id: randomUUID(),
+      status: 'queued',
+      concurrency: options.concurrency ?? this.defaultConcurrency,
+      ...(options.onConflict && { onConflict: options.onConflict }),
+      ...(options.retry && { retry: options.retry }),
+      from: {
+        provider: from.config.provider,
+        target: describeTarget(from.config),
+        prefix: from.prefix,
+        ...(from.profile ? { profile: from.profile } : { config: from.config }),
+        native: from.native,
+      },
+      provider: target.config.provider,
+      target: describeTarget(target.config),
+      ...(target.profile ? { profile: target.profile } : { config: target.config }),
+      items: objects.map(({ sourceKey, key, size }, index) => ({
+        id: `${index}`,
+        url: objectLocation(from.config, sourceKey),
+        sourceKey,
+        status: 'pending',
+        progress: 0,
+        fileName: key,
+        size,
+      })),
+      ...(options.createdBy && { createdBy: options.createdBy }),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.save(job);
+    void this.run(job);
+
+    logger.info('Copy job submitted', {
+      jobId: job.id,
+      items: job.items.length,
+      from: job.from?.provider,
+      provider: job.provider,
+      native: from.native,
+      createdBy: job.createdBy,
+    });
+    return job;
+  }
+
+  get(id: string): Job | undefined {
+    return this.store.get(id);
+  }
+
+  /**
+   * Queues failed items again, or only the listed ones, and restarts the job.
+   * Items keep their attempt count. Resolves to undefined for an unknown job.
+   */
+  async retry(id: string, itemIds?: string[], retriedBy?: Actor): Promise<Job | undefined> {
+    const job = this.store.get(id);
+    if (!job) return undefined;
+    if (this.running.has(id)) {
+      throw new AppError('JOB_RUNNING', `Job ${id} is still running`, 409);
+    }
+
+    const failed = job.items.filter((item) => item.status === 'error' && (!itemIds || itemIds.includes(item.id)));
+    for (const item of failed) {
+      item.status = 'pending';
+      item.progress = 0;
+      delete item.error;
+    }
+
+    if (failed.length > 0) {
+      job.status = 'queued';
+      await this.store.save(job);
+      void this.run(job);
+      logger.info('Transfer job items queued for retry', { jobId: id, items: failed.length, retriedBy });
+    }
+    return job;
+  }
+
+  private async run(job: Job): Promise<void> {
+    if (this.running.has(job.id)) return;
+    this.running.add(job.id);
+
+    try {
+      job.status = 'running';
+      void this.store.save(job);
+
+      const pending = job.items.filter((item) => item.status === 'pending');
+      const config = this.resolveConfig(job);
+      const sourceConfig = job.from && this.resolveConfig(job.from);
+      let next = 0;
+
+      const worker = async (): Promise<void> => {
+        while (next < pending.length) {
+          const item = pending[next++];
+          if (item) await this.processItem(job, item, config, sourceConfig);
+        }
+      };
+
+      await Promise.all(
+        Array.from({ length: Math.min(job.concurrency, pending.length) }, worker)
+      );
+    } catch (error) {
+      logger.error('Transfer job stopped', { jobId: job.id, error });
+    } finally {
+      // A job is never left running, so its failed items can still be retried
+      job.status = 'completed';
+      this.running.delete(job.id);
+      await this.store.save(job);
+    }
+
+    logger.info('Transfer job completed', { jobId: job.id });
+  }
+
+  private resolveConfig(stored: Job | CopySource): CloudConfig | undefined {
+    return stored.profile ? getProfile(stored.profile)?.config : stored.config;
+  }
+
+  private copyItem(job: Job, from: CopySource, item: JobItem, config: CloudConfig, sourceConfig: CloudConfig) {
+    const size = item.size ?? 0;
+    return copyObject(sourceConfig, config, item.sourceKey ?? '', item.fileName ?? item.sourceKey ?? '', {
+      onConflict: job.onConflict,
+      native: from.native,
+      allowedContentTypes: allowedContentTypesFor(job.profile),
+      // Kept in memory only; status reads see it, the store is written when the item finishes
+      onProgress: (bytes) => {
+        item.progress = size > 0 ? Math.min(99, Math.floor((bytes / size) * 100)) : 0;
+      },
+    });
+  }
+
+  private async processItem(
+    job: Job,
+    item: JobItem,
+    config: CloudConfig | undefined,
+    sourceConfig?: CloudConfig | undefined
+  ): Promise<void> {
+    item.status = 'uploading';
+    item.progress = 0;
+    item.startedAt = new Date().toISOString();
+    delete item.completedAt;
+    void this.store.save(job);
+
+    try {
+      if (!config) {
+        throw new Error(missingConfig(job.profile));
+      }
+      if (job.from && !sourceConfig) {
+        throw new Error(missingConfig(job.from.profile));
+      }
+      if (job.sourceCredentialsDropped || item.sourceCredentialsDropped) {
+        throw new Error(MISSING_SOURCE_CREDENTIALS);
+      }
+      const result = await withRetry(
+        async () => {
+          item.attempts = (item.attempts ?? 0) + 1;
+          item.progress = 0;
+          void this.store.save(job);
+          if (job.from && sourceConfig) {
+            return this.copyItem(job, job.from, item, config, sourceConfig);
+          }
+          // Jobs stored before key templates existed carry no key
+          return transferUrl(
+            config,
+            item.url,
+            item.fileName ?? fileNameFromUrl(item.url),
+            {
+              onConflict: job.onConflict,
+              allowedContentTypes: allowedContentTypesFor(job.profile),
+              objectOptions: objectOptionsFor(job.profile, withMetadata(job.objectOptions, item.metadata)),
+              contentType: item.declaredContentType,
+              source: mergeSourceOptions(job.source, item.source),
+            }
+          );
+        },
+        job.retry ?? DEFAULT_RETRY_POLICY,
+        (error, attempt, delayMs) => {
+          logger.warn('Retrying job item', { jobId: job.id, itemId: item.id, attempt, delayMs, error });
+        }
+      );
+      item.status = 'success';
+      item.progress = 100;
+      item.fileName = result.key;
+      item.conflict = result.conflict;
+      if (result.conflict !== 'skipped') {
+        item.location = result.location;
+        item.size = result.size;
+        item.contentType = result.contentType;
+        if (result.checksums) item.checksums = result.checksums;
+        if (result.verifiedWith) item.verifiedWith = result.verifiedWith;
+      }
+    } catch (error) {
+      item.status = 'error';
+      item.progress = 0;
+      item.error = error instanceof Error ? error.message : 'Transfer failed';
+      logger.error('Job item failed', { jobId: job.id, itemId: item.id, error });
+    }
+
+    item.completedAt = new Date().toISOString();
+    void this.store.save(job);
+  }
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+// Anything but a positive integer falls back to the default rather than starting no workers
+const concurrencyFromEnv = (value = process.env.JOBS_CONCURRENCY): number => {
+  if (!value) return DEFAULT_CONCURRENCY;
+  const concurrency = Number(value);
+  if (Number.isInteger(concurrency) && concurrency > 0) return concurrency;
+
+  logger.warn('Ignoring invalid JOBS_CONCURRENCY', { value, default: DEFAULT_CONCURRENCY });
+  return DEFAULT_CONCURRENCY;
+};
+
+export const jobQueue = new JobQueue(
+  new JsonJobStore(process.env.JOBS_STORE_PATH || 'data/jobs.json', {
+    ...(process.env.JOBS_RETENTION_DAYS && { retentionDays: Number(process.env.JOBS_RETENTION_DAYS) }),
+  }),
+  concurrencyFromEnv()
+);
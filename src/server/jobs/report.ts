@@ -0,0 +1,69 @@
+import type { Job } from './types.js';
+
+/**
+ * Job results flattened to one row per item for export. The browser writes
+ * the same columns for the uploads it runs itself, so reports from either
+ * transfer mode line up.
+ */
+export const REPORT_COLUMNS = [
+  'url',
+  'key',
+  'provider',
+  'bucket',
+  'status',
+  'conflict',
+  'size',
+  'contentType',
+  'sha256',
+  'verifiedWith',
+  'error',
+  'attempts',
+  'startedAt',
+  'completedAt',
+  'durationMs',
+  'location',
+] as const;
+
+export type ReportColumn = typeof REPORT_COLUMNS[number];
+
+export type ReportRow = Record<ReportColumn, string | number | null>;
+
+export type ReportFormat = 'json' | 'csv';
+
+export const jobReport = (job: Job): ReportRow[] =>
+  job.items.map((item) => ({
+    url: item.url,
+    key: item.fileName ?? null,
+    provider: job.provider,
+    bucket: job.target ?? null,
+    status: item.status,
+    conflict: item.conflict ?? null,
+    size: item.size ?? null,
+    contentType: item.contentType ?? null,
+    sha256: item.checksums?.sha256 ?? null,
+    verifiedWith: item.verifiedWith ?? null,
+    error: item.error ?? null,
+    attempts: item.attempts ?? 0,
+    startedAt: item.startedAt ?? null,
+    completedAt: item.completedAt ?? null,
+    durationMs: item.startedAt && item.completedAt
+      ? Date.parse(item.completedAt) - Date.parse(item.startedAt)
+      : null,
+    location: item.location ?? null,
+  }));
+
+// Spreadsheet apps evaluate cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvField = (value: string | number | null): string => {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: ReportRow[]): string =>
+  [REPORT_COLUMNS.join(','), ...rows.map((row) => REPORT_COLUMNS.map((column) => csvField(row[column])).join(','))]
+    .map((line) => `${line}\r\n`)
+    .join('');
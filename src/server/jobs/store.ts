@@ -0,0 +1,144 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { SourceOptions } from '../storage/schemas.js';
+import { isSecretHeader } from '../utils/redact.js';
+import { logger } from '../utils/logger.js';
+import type { CopySource, Job, JobItem } from './types.js';
+
+export interface JobStoreOptions {
+  // Completed jobs are dropped this long after they last changed; 0 keeps them forever
+  retentionDays?: number | undefined;
+  // Saves within this window are coalesced into one write
+  writeIntervalMs?: number | undefined;
+}
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DEFAULT_WRITE_INTERVAL_MS = 1000;
+
+// Source credentials are kept in memory for the life of the process but never written out
+const persistableSource = (source: SourceOptions | undefined): SourceOptions | undefined => {
+  if (!source) return undefined;
+  const { auth: _auth, cookies: _cookies, headers, ...rest } = source;
+  const kept = headers && Object.fromEntries(Object.entries(headers).filter(([name]) => !isSecretHeader(name)));
+  return { ...rest, ...(kept && Object.keys(kept).length > 0 && { headers: kept }) };
+};
+
+const hasSourceCredentials = (source: SourceOptions | undefined): boolean =>
+  Boolean(source?.auth || source?.cookies || Object.keys(source?.headers ?? {}).some(isSecretHeader));
+
+const persistableItem = ({ source, ...item }: JobItem): JobItem => {
+  const kept = persistableSource(source);
+  return {
+    ...item,
+    ...(kept && { source: kept }),
+    ...(hasSourceCredentials(source) && { sourceCredentialsDropped: true }),
+  };
+};
+
+// Inline provider configs hold access keys, SAS tokens and service-account keys; profiles are stored by name
+const persistableCopySource = ({ config: _config, ...from }: CopySource): CopySource => from;
+
+const persistableJob = ({ config: _config, source, from, items, ...job }: Job): Job => {
+  const kept = persistableSource(source);
+  return {
+    ...job,
+    ...(kept && { source: kept }),
+    ...(hasSourceCredentials(source) && { sourceCredentialsDropped: true }),
+    ...(from && { from: persistableCopySource(from) }),
+    items: items.map(persistableItem),
+  };
+};
+
+/**
+ * Persists jobs to a single JSON file, readable by the server's user only.
+ * Writes go to a temporary file that is renamed into place, are serialized so
+ * concurrent saves never interleave, and are coalesced so a busy job rewrites
+ * the file at most once per write interval. Inline credentials are not
+ * written, so a job submitted with them cannot resume after a restart; nor
+ * can items whose source credentials were left out, which are flagged.
+ */
+export class JsonJobStore {
+  private jobs = new Map<string, Job>();
+  private writeChain: Promise<void> = Promise.resolve();
+  private scheduled: Promise<void> | undefined;
+  private lastWriteAt = 0;
+  private readonly retentionMs: number;
+  private readonly writeIntervalMs: number;
+
+  constructor(private readonly filePath: string, options: JobStoreOptions = {}) {
+    this.retentionMs = (options.retentionDays ?? DEFAULT_RETENTION_DAYS) * 24 * 3600 * 1000;
+    this.writeIntervalMs = options.writeIntervalMs ?? DEFAULT_WRITE_INTERVAL_MS;
+  }
+
+  async load(): Promise<Job[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error('Failed to load job store', { error, filePath: this.filePath });
+      }
+      this.jobs = new Map();
+      return [];
+    }
+
+    try {
+      const jobs = JSON.parse(raw) as Job[];
+      this.jobs = new Map(jobs.map((job) => [job.id, job]));
+    } catch (error) {
+      // Moved aside rather than overwritten by the next save, so the jobs can still be recovered by hand
+      const corruptPath = `${this.filePath}.corrupt-${Date.now()}`;
+      await fs.rename(this.filePath, corruptPath).catch(() => undefined);
+      logger.error('Job store is not valid JSON; starting empty', { error, filePath: this.filePath, movedTo: corruptPath });
+      this.jobs = new Map();
+    }
+
+    this.prune();
+    return [...this.jobs.values()];
+  }
+
+  get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  // Resolves once a write that includes this save has finished
+  save(job: Job): Promise<void> {
+    job.updatedAt = new Date().toISOString();
+    this.jobs.set(job.id, job);
+
+    if (!this.scheduled) {
+      const delay = Math.max(0, this.lastWriteAt + this.writeIntervalMs - Date.now());
+      this.scheduled = new Promise<void>((resolve) => setTimeout(resolve, delay)).then(() => {
+        this.scheduled = undefined;
+        return this.flush();
+      });
+    }
+    return this.scheduled;
+  }
+
+  private prune(): void {
+    if (this.retentionMs <= 0) return;
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [id, job] of this.jobs) {
+      if (job.status === 'completed' && Date.parse(job.updatedAt) < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+
+  private flush(): Promise<void> {
+    this.writeChain = this.writeChain
+      .then(async () => {
+        this.lastWriteAt = Date.now();
+        this.prune();
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tmpPath, JSON.stringify([...this.jobs.values()].map(persistableJob), null, 2), { mode: 0o600 });
+        await fs.rename(tmpPath, this.filePath);
+      })
+      .catch((error) => {
+        logger.error('Failed to persist job store', { error, filePath: this.filePath });
+      });
+    return this.writeChain;
+  }
+}
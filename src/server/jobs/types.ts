@@ -0,0 +1,80 @@
+import type { CloudConfig, ConflictPolicy, ObjectOptions, RetryPolicy, SourceOptions } from '../storage/schemas.js';
+import type { ConflictAction } from '../storage/conflicts.js';
+import type { ChecksumAlgorithm, Checksums } from '../storage/checksums.js';
+import type { Actor } from '../auth/types.js';
+
+// Item states mirror the client's UploadItem so job results can be rendered as-is
+export type JobItemStatus = 'pending' | 'uploading' | 'success' | 'error';
+
+export type JobStatus = 'queued' | 'running' | 'completed';
+
+export interface JobItem {
+  id: string;
+  // For copy items, the source object's location
+  url: string;
+  // Copy items only: the key read from the source bucket
+  sourceKey?: string;
+  status: JobItemStatus;
+  progress: number;
+  error?: string;
+  // Object key, rendered from the key template (or mapped from the source key) when the job is submitted
+  fileName?: string;
+  // Where the object was written, e.g. s3://bucket/key
+  location?: string;
+  // Copy items start with the size listed at the source
+  size?: number;
+  contentType?: string;
+  conflict?: ConflictAction;
+  checksums?: Checksums;
+  verifiedWith?: ChecksumAlgorithm;
+  // Every try, including automatic retries and retries requested after the item failed
+  attempts?: number;
+  // The latest run of the item; a retried item is timed again
+  startedAt?: string;
+  completedAt?: string;
+  // Options from the item's manifest row; `source` may hold credentials and is only returned redacted
+  declaredContentType?: string;
+  metadata?: Record<string, string>;
+  source?: SourceOptions;
+  // Set in the store when `source` had credentials, which are not written; the item cannot run after a restart
+  sourceCredentialsDropped?: boolean;
+}
+
+// Where a copy job reads from; like the destination, a profile is stored by name only
+export interface CopySource {
+  provider: CloudConfig['provider'];
+  target: string;
+  prefix: string;
+  profile?: string;
+  config?: CloudConfig;
+  // Decided at submission: the service copies each object rather than this server streaming it
+  native: boolean;
+}
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  concurrency: number;
+  // Defaults to overwrite, including for jobs stored before conflict policies existed
+  onConflict?: ConflictPolicy;
+  // As submitted; the profile's defaults are merged in when each item runs
+  objectOptions?: ObjectOptions;
+  // Jobs stored before retry policies existed use the default policy
+  retry?: RetryPolicy;
+  // Batch source options; each item's own override them
+  source?: SourceOptions;
+  sourceCredentialsDropped?: boolean;
+  // Set on copy jobs, whose items are objects in another bucket rather than URLs
+  from?: CopySource;
+  provider: CloudConfig['provider'];
+  // Bucket or container at submission; absent on jobs stored before reports existed
+  target?: string;
+  // Jobs submitted with a storage profile store only its name, never its credentials
+  profile?: string;
+  config?: CloudConfig;
+  items: JobItem[];
+  // The caller that submitted the job; absent for anonymous callers and jobs stored before sign-in existed
+  createdBy?: Actor;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,76 @@
+import { Request, Response, NextFunction } from 'express';
+import { apiKeyStore } from '../auth/apiKeys.js';
+import { sessionIdentity } from '../auth/sessions.js';
+import { hasScope } from '../auth/types.js';
+import type { Identity, Scope } from '../auth/types.js';
+
+// Required by default in production; AUTH_REQUIRED overrides either way
+export const authRequired = (): boolean =>
+  process.env.AUTH_REQUIRED
+    ? process.env.AUTH_REQUIRED === 'true'
+    : process.env.NODE_ENV === 'production';
+
+const ANONYMOUS: Identity = { type: 'anonymous', id: 'anonymous', name: 'anonymous', scopes: [] };
+
+// `Authorization: Bearer <key>` or `X-API-Key: <key>`
+const presentedApiKey = (req: Request): string | undefined => {
+  const authorization = req.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) return authorization.slice('Bearer '.length).trim();
+  return req.get('X-API-Key')?.trim();
+};
+
+const deny = (res: Response, status: number, code: string, message: string) =>
+  res.status(status).json({
+    error: {
+      code,
+      message,
+      timestamp: new Date().toISOString(),
+    }
+  });
+
+/**
+ * Attaches the caller to `req.identity`: the API key presented with the
+ * request, else the browser session, else an anonymous caller. A key that
+ * is presented but not valid is refused here rather than treated as
+ * anonymous, so a revoked key fails loudly even where auth is optional.
+ */
+export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = presentedApiKey(req);
+    if (token !== undefined) {
+      const key = await apiKeyStore.verify(token);
+      if (!key) {
+        return deny(res, 401, 'INVALID_API_KEY', 'The API key is not valid or has been revoked');
+      }
+      req.identity = { type: 'api-key', id: key.id, name: key.name, scopes: key.scopes };
+      return next();
+    }
+
+    req.identity = sessionIdentity(req) ?? ANONYMOUS;
+    return next();
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Admits callers holding `scope` (any signed-in caller when no scope is
+ * given). Anonymous callers are admitted only while auth is not required,
+ * and never to `admin` routes, which mint keys and rewrite bucket settings.
+ */
+export const requireAuth = (scope?: Scope) => (req: Request, res: Response, next: NextFunction) => {
+  const identity = req.identity ?? ANONYMOUS;
+
+  if (identity.type === 'anonymous') {
+    if (scope === 'admin') {
+      return deny(res, 401, 'AUTH_REQUIRED', 'Sign in as an admin or send an admin API key; this is required even while AUTH_REQUIRED is off');
+    }
+    return authRequired()
+      ? deny(res, 401, 'AUTH_REQUIRED', 'Sign in or send an API key to use this API')
+      : next();
+  }
+  if (scope && !hasScope(identity, scope)) {
+    return deny(res, 403, 'INSUFFICIENT_SCOPE', `This requires the "${scope}" scope`);
+  }
+  return next();
+};
@@ -1,9 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger.js';
+import { redactUrl } from '../utils/redact.js';
+import { actorOf } from '../auth/types.js';
 
 export const requestLogger = (req: Request, res: Response, next: NextFunction) => {
   const start = Date.now();
   const requestId = Math.random().toString(36).substring(7);
+  // Signed URLs carry their credentials in the query string
+  const url = redactUrl(req.originalUrl);
   
   // Add request ID to headers
   req.headers['x-request-id'] = requestId;
@@ -11,9 +15,10 @@ export const requestLogger = (req: Request, res: Response, next: NextFunction) =
   logger.info('Incoming request', {
     requestId,
     method: req.method,
-    url: req.url,
+    url,
     userAgent: req.get('User-Agent'),
     ip: req.ip,
+    ...(req.identity && { caller: actorOf(req.identity) }),
   });
   
   // Log response when finished
@@ -22,9 +27,10 @@ export const requestLogger = (req: Request, res: Response, next: NextFunction) =
     logger.info('Request completed', {
       requestId,
       method: req.method,
-      url: req.url,
+      url,
       statusCode: res.statusCode,
       duration: `${duration}ms`,
+      ...(req.identity && { caller: actorOf(req.identity) }),
     });
   });
   
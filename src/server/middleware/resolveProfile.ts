@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import { assertInlineGcpKey } from '../providers/gcpCredentials.js';
+import { getProfile, inlineCredentialsAllowed } from '../storage/profiles.js';
+import { sendError } from '../utils/errors.js';
+
+/**
+ * Replaces `{ profile: "name" }` in the request body with the profile's stored
+ * config, so route schemas keep validating a plain `config` object.
+ */
+export const resolveProfile = (req: Request, res: Response, next: NextFunction) => {
+  const profileName = req.body?.profile;
+
+  if (typeof profileName === 'string') {
+    const profile = getProfile(profileName);
+    if (!profile) {
+      return res.status(400).json({
+        error: {
+          code: 'PROFILE_NOT_FOUND',
+          message: `Storage profile "${profileName}" is not configured`,
+          timestamp: new Date().toISOString(),
+        }
+      });
+    }
+
+    req.body.config = profile.config;
+    return next();
+  }
+
+  if (req.body?.config && !inlineCredentialsAllowed()) {
+    return res.status(403).json({
+      error: {
+        code: 'INLINE_CREDENTIALS_DISABLED',
+        message: 'Inline credentials are disabled on this server; use a storage profile',
+        timestamp: new Date().toISOString(),
+      }
+    });
+  }
+
+  // Only profiles may sign with the server's own GCP credentials
+  if (req.body?.config?.provider === 'gcp') {
+    try {
+      assertInlineGcpKey(req.body.config.keyFile);
+    } catch (error) {
+      return sendError(res, error, 'GCP_CREDENTIALS_INVALID', 'Invalid GCP credentials');
+    }
+  }
+
+  return next();
+};
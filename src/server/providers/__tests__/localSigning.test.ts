@@ -0,0 +1,60 @@
+import { signLocalUrl, verifyLocalSignature } from '../localSigning.js';
+import type { LocalUrlTarget } from '../localSigning.js';
+
+process.env.LOCAL_STORAGE_SECRET = 'test-secret';
+
+const upload: LocalUrlTarget = {
+  method: 'PUT',
+  bucket: 'dev',
+  key: 'photos/a b.jpg',
+  contentType: 'image/jpeg',
+  onlyIfAbsent: true,
+};
+
+// The expiry and signature a URL carries, as the route reads them
+const signedParams = (url: string) => {
+  const query = new URL(url, 'http://localhost').searchParams;
+  return { expires: Number(query.get('expires')), signature: query.get('signature') ?? '' };
+};
+
+describe('local storage URL signing', () => {
+  it('verifies the target a URL was signed for', () => {
+    const { url } = signLocalUrl(upload, 60);
+    const { expires, signature } = signedParams(url);
+
+    expect(url).toMatch(/^\/api\/local-storage\/dev\/photos\/a%20b\.jpg\?/);
+    expect(verifyLocalSignature(upload, expires, signature)).toBe(true);
+  });
+
+  it.each<[string, Partial<LocalUrlTarget>]>([
+    ['method', { method: 'GET' }],
+    ['bucket', { bucket: 'other' }],
+    ['key', { key: 'photos/b.jpg' }],
+    ['content type', { contentType: 'text/html' }],
+    ['conditional create', { onlyIfAbsent: false }],
+    ['object options', { objectOptions: '{"cacheControl":"no-store"}' }],
+  ])('rejects a request with a different %s', (_field, change) => {
+    const { expires, signature } = signedParams(signLocalUrl(upload, 60).url);
+    expect(verifyLocalSignature({ ...upload, ...change }, expires, signature)).toBe(false);
+  });
+
+  it('rejects a changed expiry', () => {
+    const { expires, signature } = signedParams(signLocalUrl(upload, 60).url);
+    expect(verifyLocalSignature(upload, expires + 3600, signature)).toBe(false);
+  });
+
+  it('rejects expired URLs', () => {
+    const { expires, signature } = signedParams(signLocalUrl(upload, 60).url);
+    jest.useFakeTimers({ now: Date.now() + 120_000 });
+    try {
+      expect(verifyLocalSignature(upload, expires, signature)).toBe(false);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('rejects malformed signatures', () => {
+    const { expires } = signedParams(signLocalUrl(upload, 60).url);
+    expect(verifyLocalSignature(upload, expires, 'abc')).toBe(false);
+  });
+});
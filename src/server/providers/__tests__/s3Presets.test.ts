@@ -0,0 +1,32 @@
+import { cloudConfigSchema } from '../../storage/schemas.js';
+import type { S3Config } from '../../storage/schemas.js';
+import { resolveS3Settings } from '../s3Presets.js';
+
+const credentials = { provider: 's3' as const, bucket: 'assets', accessKeyId: 'AKIA', secretAccessKey: 'secret' };
+
+describe('S3 presets', () => {
+  it('uses the preset region when none is given', () => {
+    const config = cloudConfigSchema.parse({ ...credentials, preset: 'spaces' }) as S3Config;
+    const settings = resolveS3Settings(config);
+
+    expect(settings.region).toBe('nyc3');
+    expect(settings.endpoint).toBe('https://nyc3.digitaloceanspaces.com');
+  });
+
+  it('prefers an explicit region over the preset default', () => {
+    const settings = resolveS3Settings({ ...credentials, preset: 'b2', region: 'eu-central-003' });
+
+    expect(settings.region).toBe('eu-central-003');
+    expect(settings.endpoint).toBe('https://s3.eu-central-003.backblazeb2.com');
+  });
+
+  it('requires a region when no preset is set', () => {
+    expect(cloudConfigSchema.safeParse(credentials).success).toBe(false);
+    expect(cloudConfigSchema.safeParse({ ...credentials, region: '' }).success).toBe(false);
+    expect(cloudConfigSchema.safeParse({ ...credentials, region: 'eu-west-1' }).success).toBe(true);
+  });
+
+  it('rejects regions that are not host-safe', () => {
+    expect(cloudConfigSchema.safeParse({ ...credentials, preset: 'spaces', region: 'evil.com/' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,385 @@
+import { createHash, randomUUID } from 'node:crypto';
+import type { Readable } from 'node:stream';
+import {
+  BlobServiceClient,
+  ContainerClient,
+  StorageSharedKeyCredential,
+  BlobSASPermissions,
+  RestError,
+} from '@azure/storage-blob';
+import type { BlobItem, BlockBlobCommitBlockListOptions } from '@azure/storage-blob';
+import type { AzureConfig, ObjectOptions } from '../storage/schemas.js';
+import { encodeTags } from '../storage/objectOptions.js';
+import { AppError } from '../utils/errors.js';
+import type { ObjectInfo, StorageProvider } from './types.js';
+
+const AZURE_BLOCK_SIZE = 8 * 1024 * 1024;
+const AZURE_MAX_CONCURRENCY = 4;
+
+export const createAzureServiceClient = (config: AzureConfig): BlobServiceClient => {
+  if (config.accountKey) {
+    const sharedKeyCredential = new StorageSharedKeyCredential(
+      config.accountName,
+      config.accountKey
+    );
+    return new BlobServiceClient(
+      `https://${config.accountName}.blob.core.windows.net`,
+      sharedKeyCredential
+    );
+  } else if (config.sasToken) {
+    return new BlobServiceClient(
+      `https://${config.accountName}.blob.core.windows.net?${config.sasToken}`
+    );
+  }
+  throw new Error('Either accountKey or sasToken must be provided');
+};
+
+export const createAzureContainerClient = (config: AzureConfig): ContainerClient =>
+  createAzureServiceClient(config).getContainerClient(config.containerName);
+
+// Azure keeps each rule's lists as comma-separated strings
+const splitList = (value: string): string[] =>
+  value.split(',').map((item) => item.trim()).filter(Boolean);
+
+const isNotFound = (error: unknown): boolean =>
+  error instanceof RestError && error.statusCode === 404;
+
+// BlobAlreadyExists (409) or ConditionNotMet (412)
+const isPreconditionFailed = (error: unknown): boolean =>
+  error instanceof RestError && [409, 412].includes(error.statusCode ?? 0);
+
+const objectExists = (key: string) => new AppError('OBJECT_EXISTS', `Object "${key}" already exists`, 409);
+
+const ONLY_IF_ABSENT = { ifNoneMatch: '*' };
+
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Block IDs must be base64 and the same length for every block of a blob. They
+// carry the upload ID, so two uploads to one key never stage the same block ID.
+const blockIdFor = (uploadId: string, partNumber: number): string => {
+  if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+    throw new AppError('INVALID_UPLOAD_ID', 'Upload ID is not one issued for an Azure upload', 400);
+  }
+  return Buffer.from(`${uploadId}-${partNumber.toString().padStart(6, '0')}`).toString('base64');
+};
+
+// Re-chunks a stream into blocks of exactly `size` bytes (the last may be shorter)
+async function* readBlocks(body: Readable, size: number): AsyncGenerator<Buffer> {
+  let buffered: Buffer[] = [];
+  let length = 0;
+
+  for await (const chunk of body) {
+    buffered.push(chunk as Buffer);
+    length += (chunk as Buffer).length;
+
+    while (length >= size) {
+      const joined = Buffer.concat(buffered, length);
+      yield joined.subarray(0, size);
+      buffered = [joined.subarray(size)];
+      length -= size;
+    }
+  }
+  if (length > 0) yield Buffer.concat(buffered, length);
+}
+
+// An encryption scope in the SAS makes Azure reject writes that use any other scope
+const generateSasUrl = (
+  config: AzureConfig,
+  key: string,
+  permissions: string,
+  expiresIn: number,
+  { contentDisposition, encryptionScope }: { contentDisposition?: string | undefined; encryptionScope?: string | undefined } = {}
+) =>
+  createAzureContainerClient(config).getBlobClient(key).generateSasUrl({
+    permissions: BlobSASPermissions.parse(permissions),
+    expiresOn: new Date(Date.now() + expiresIn * 1000),
+    ...(contentDisposition && { contentDisposition }),
+    ...(encryptionScope && { encryptionScope }),
+  });
+
+// Setting tags on write needs the SAS tag permission as well as write
+const writePermissions = (options: ObjectOptions = {}): string => (options.tags ? 'wt' : 'w');
+
+// Put Blob headers for the options; the storage class maps to the access tier (Hot, Cool, Cold, Archive)
+const objectHeaders = ({ cacheControl, contentDisposition, metadata, tags, storageClass, kmsKeyId }: ObjectOptions = {}) => ({
+  ...(cacheControl && { 'x-ms-blob-cache-control': cacheControl }),
+  ...(contentDisposition && { 'x-ms-blob-content-disposition': contentDisposition }),
+  ...Object.fromEntries(Object.entries(metadata ?? {}).map(([name, value]) => [`x-ms-meta-${name}`, value])),
+  ...(tags && { 'x-ms-tags': encodeTags(tags) }),
+  ...(storageClass && { 'x-ms-access-tier': storageClass }),
+  ...(kmsKeyId && { 'x-ms-encryption-scope': kmsKeyId }),
+});
+
+// Blob properties applied when the block list is committed
+const commitOptions = (
+  contentType: string,
+  { cacheControl, contentDisposition, metadata, tags, storageClass, kmsKeyId }: ObjectOptions = {}
+): BlockBlobCommitBlockListOptions => ({
+  blobHTTPHeaders: {
+    blobContentType: contentType,
+    ...(cacheControl && { blobCacheControl: cacheControl }),
+    ...(contentDisposition && { blobContentDisposition: contentDisposition }),
+  },
+  ...(metadata && { metadata }),
+  ...(tags && { tags }),
+  ...(storageClass && { tier: storageClass }),
+  ...(kmsKeyId && { encryptionScope: kmsKeyId }),
+});
+
+export const azureProvider: StorageProvider<AzureConfig> = {
+  id: 'azure',
+
+  async signUpload(config, { key, contentType, expiresIn, onlyIfAbsent, objectOptions }) {
+    return {
+      signedUrl: await generateSasUrl(config, key, writePermissions(objectOptions), expiresIn, {
+        encryptionScope: objectOptions?.kmsKeyId,
+      }),
+      method: 'PUT',
+      headers: {
+        'Content-Type': contentType,
+        'x-ms-blob-type': 'BlockBlob',
+        ...objectHeaders(objectOptions),
+        ...(onlyIfAbsent && { 'If-None-Match': '*' }),
+      },
+      expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+    };
+  },
+
+  async signDownload(config, { key, expiresIn, contentDisposition }) {
+    return {
+      signedUrl: await generateSasUrl(config, key, 'r', expiresIn, { contentDisposition }),
+      method: 'GET',
+      headers: {},
+      expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+    };
+  },
+
+  async head(config, key) {
+    try {
+      const properties = await createAzureContainerClient(config).getBlobClient(key).getProperties();
+      return {
+        key,
+        size: properties.contentLength ?? 0,
+        contentType: properties.contentType,
+        lastModified: properties.lastModified?.toISOString(),
+        etag: properties.etag,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return undefined;
+      throw error;
+    }
+  },
+
+  async open(config, key) {
+    try {
+      const response = await createAzureContainerClient(config).getBlobClient(key).download();
+      if (!response.readableStreamBody) {
+        throw new Error(`Azure returned no body for "${key}"`);
+      }
+      return {
+        info: {
+          key,
+          size: response.contentLength ?? 0,
+          contentType: response.contentType,
+          lastModified: response.lastModified?.toISOString(),
+          etag: response.etag,
+        },
+        objectOptions: {
+          ...(response.cacheControl && { cacheControl: response.cacheControl }),
+          ...(response.contentDisposition && { contentDisposition: response.contentDisposition }),
+          ...(response.metadata && Object.keys(response.metadata).length > 0 && { metadata: response.metadata }),
+        },
+        // An IncomingMessage in Node.js, typed as the generic stream interface
+        body: response.readableStreamBody as Readable,
+      };
+    } catch (error) {
+      if (isNotFound(error)) throw new AppError('OBJECT_NOT_FOUND', `Object "${key}" not found`, 404);
+      throw error;
+    }
+  },
+
+  async delete(config, key) {
+    await createAzureContainerClient(config).getBlobClient(key).delete();
+  },
+
+  async list(config, { prefix, delimiter, pageToken, maxResults }) {
+    const containerClient = createAzureContainerClient(config);
+    const pageSettings = {
+      ...(pageToken && { continuationToken: pageToken }),
+      ...(maxResults && { maxPageSize: maxResults }),
+    };
+    const toObjectInfo = (blob: BlobItem): ObjectInfo => ({
+      key: blob.name,
+      size: blob.properties.contentLength ?? 0,
+      contentType: blob.properties.contentType,
+      lastModified: blob.properties.lastModified.toISOString(),
+      etag: blob.properties.etag,
+    });
+
+    if (delimiter) {
+      const page = (await containerClient
+        .listBlobsByHierarchy(delimiter, { ...(prefix && { prefix }) })
+        .byPage(pageSettings)
+        .next()).value;
+
+      return {
+        objects: page?.segment.blobItems.map(toObjectInfo) ?? [],
+        prefixes: page?.segment.blobPrefixes?.map((p: { name: string }) => p.name) ?? [],
+        nextPageToken: page?.continuationToken || undefined,
+      };
+    }
+
+    const page = (await containerClient
+      .listBlobsFlat({ ...(prefix && { prefix }) })
+      .byPage(pageSettings)
+      .next()).value;
+
+    return {
+      objects: page?.segment.blobItems.map(toObjectInfo) ?? [],
+      prefixes: [],
+      nextPageToken: page?.continuationToken || undefined,
+    };
+  },
+
+  /**
+   * Stages the body block by block rather than with `uploadStream`, so each
+   * block carries a Content-MD5 that Azure checks before accepting it. The
+   * whole-object MD5 is stored as the blob's Content-MD5 on commit.
+   */
+  async upload(config, key, body, contentType, { onlyIfAbsent, objectOptions, checksums } = {}) {
+    const blobClient = createAzureContainerClient(config).getBlockBlobClient(key);
+    const uploadId = randomUUID();
+    const blockIds: string[] = [];
+    const staging = new Set<Promise<void>>();
+    let failure: unknown;
+
+    for await (const block of readBlocks(body, AZURE_BLOCK_SIZE)) {
+      const blockId = blockIdFor(uploadId, blockIds.length + 1);
+      blockIds.push(blockId);
+
+      const staged: Promise<void> = blobClient
+        .stageBlock(blockId, block, block.length, {
+          transactionalContentMD5: createHash('md5').update(block).digest(),
+          ...(objectOptions?.kmsKeyId && { encryptionScope: objectOptions.kmsKeyId }),
+        })
+        .then(() => undefined, (error: unknown) => { failure ??= error; })
+        .finally(() => staging.delete(staged));
+      staging.add(staged);
+
+      if (staging.size >= AZURE_MAX_CONCURRENCY) await Promise.race(staging);
+      if (failure) break;
+    }
+    await Promise.all(staging);
+    if (failure) {
+      body.destroy();
+      throw failure;
+    }
+
+    try {
+      const options = commitOptions(contentType, objectOptions);
+      await blobClient.commitBlockList(blockIds, {
+        ...options,
+        blobHTTPHeaders: {
+          ...options.blobHTTPHeaders,
+          ...(checksums && { blobContentMD5: Buffer.from(checksums().md5, 'hex') }),
+        },
+        ...(onlyIfAbsent && { conditions: ONLY_IF_ABSENT }),
+      });
+    } catch (error) {
+      if (onlyIfAbsent && isPreconditionFailed(error)) throw objectExists(key);
+      throw error;
+    }
+    return { location: blobClient.url.split('?')[0] ?? blobClient.url, verifiedWith: 'md5' };
+  },
+
+  /**
+   * Copies within the account are done by the service. A client built from a
+   * SAS token carries it in the source URL; with a shared key the service
+   * authorizes the source itself.
+   */
+  async copy(config, sourceKey, key, { onlyIfAbsent, sourceBucket = config.containerName } = {}) {
+    const serviceClient = createAzureServiceClient(config);
+    const blobClient = serviceClient.getContainerClient(config.containerName).getBlobClient(key);
+    try {
+      const poller = await blobClient.beginCopyFromURL(
+        serviceClient.getContainerClient(sourceBucket).getBlobClient(sourceKey).url,
+        { ...(onlyIfAbsent && { conditions: ONLY_IF_ABSENT }) }
+      );
+      await poller.pollUntilDone();
+    } catch (error) {
+      if (isNotFound(error)) throw new AppError('OBJECT_NOT_FOUND', `Object "${sourceKey}" not found`, 404);
+      if (onlyIfAbsent && isPreconditionFailed(error)) throw objectExists(key);
+      throw error;
+    }
+    return { location: blobClient.url.split('?')[0] ?? blobClient.url };
+  },
+
+  // Azure has no upload session; blocks are staged against the blob and
+  // committed by ID, and the upload ID keeps each upload's block IDs apart.
+  // Committing discards every other uncommitted block of the blob, so of two
+  // concurrent uploads to one key the second to commit fails.
+  async createMultipart() {
+    return { uploadId: randomUUID(), strategy: 'parts' };
+  },
+
+  async signParts(config, { key, uploadId, partNumbers, objectOptions }) {
+    const expiresIn = 3600;
+    // Blocks must be staged with the scope the commit will use
+    const sasUrl = await generateSasUrl(config, key, 'w', expiresIn, { encryptionScope: objectOptions?.kmsKeyId });
+
+    return partNumbers.map((partNumber) => ({
+      partNumber,
+      signedUrl: `${sasUrl}&comp=block&blockid=${encodeURIComponent(blockIdFor(uploadId, partNumber))}`,
+      method: 'PUT' as const,
+      headers: { ...(objectOptions?.kmsKeyId && { 'x-ms-encryption-scope': objectOptions.kmsKeyId }) },
+      expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+    }));
+  },
+
+  async completeMultipart(config, { key, uploadId, contentType, parts, onlyIfAbsent, objectOptions }) {
+    const blockIds = [...parts]
+      .sort((a, b) => a.partNumber - b.partNumber)
+      .map((part) => blockIdFor(uploadId, part.partNumber));
+
+    try {
+      await createAzureContainerClient(config).getBlockBlobClient(key).commitBlockList(blockIds, {
+        ...commitOptions(contentType, objectOptions),
+        ...(onlyIfAbsent && { conditions: ONLY_IF_ABSENT }),
+      });
+    } catch (error) {
+      if (onlyIfAbsent && isPreconditionFailed(error)) throw objectExists(key);
+      throw error;
+    }
+  },
+
+  // Azure cannot delete uncommitted blocks; it discards them after seven days,
+  // or when another upload to the key commits
+  async abortMultipart() {
+    return { discarded: false };
+  },
+
+  // CORS is set for the storage account's blob service, not per container
+  async getCors(config) {
+    const { cors } = await createAzureServiceClient(config).getProperties();
+    return (cors ?? []).map((rule) => ({
+      origins: splitList(rule.allowedOrigins),
+      methods: splitList(rule.allowedMethods),
+      allowedHeaders: splitList(rule.allowedHeaders),
+      exposeHeaders: splitList(rule.exposedHeaders),
+      maxAgeSeconds: rule.maxAgeInSeconds,
+    }));
+  },
+
+  // Other service properties are left as they are when only `cors` is sent
+  async setCors(config, rules) {
+    await createAzureServiceClient(config).setProperties({
+      cors: rules.map((rule) => ({
+        allowedOrigins: rule.origins.join(','),
+        allowedMethods: rule.methods.join(','),
+        allowedHeaders: rule.allowedHeaders.join(','),
+        exposedHeaders: rule.exposeHeaders.join(','),
+        maxAgeInSeconds: rule.maxAgeSeconds ?? 0,
+      })),
+    });
+  },
+};
@@ -0,0 +1,285 @@
+import { pipeline } from 'node:stream/promises';
+import { ApiError, Storage } from '@google-cloud/storage';
+import type { GcpConfig, ObjectOptions } from '../storage/schemas.js';
+import { assertChecksum } from '../storage/checksums.js';
+import { AppError } from '../utils/errors.js';
+import { resolveGcpCredentials } from './gcpCredentials.js';
+import type { StorageProvider } from './types.js';
+
+export const createGcpStorage = (config: GcpConfig): Storage => {
+  return new Storage({
+    projectId: config.projectId,
+    ...resolveGcpCredentials(config.keyFile),
+  });
+};
+
+const isNotFound = (error: unknown): boolean =>
+  error instanceof ApiError && error.code === 404;
+
+const isPreconditionFailed = (error: unknown): boolean =>
+  error instanceof ApiError && error.code === 412;
+
+// `ifGenerationMatch: 0` only matches when no live object has the name
+const ONLY_IF_ABSENT = { ifGenerationMatch: 0 };
+
+// Resumable session URIs are all issued from this origin
+const GCS_UPLOAD_ORIGIN = 'https://storage.googleapis.com';
+
+const isSessionUrl = (value: string): boolean => {
+  try {
+    return new URL(value).origin === GCS_UPLOAD_ORIGIN;
+  } catch {
+    return false;
+  }
+};
+
+// GCS has no object tags; labels-like data belongs in metadata
+const assertNoTags = (options: ObjectOptions = {}): void => {
+  if (options.tags && Object.keys(options.tags).length > 0) {
+    throw new AppError('UNSUPPORTED_OPTION', 'Google Cloud Storage does not support object tags; use metadata instead', 400);
+  }
+};
+
+// Object resource fields for uploads the server starts
+const objectMetadata = ({ cacheControl, contentDisposition, metadata, storageClass }: ObjectOptions = {}) => ({
+  ...(cacheControl && { cacheControl }),
+  ...(contentDisposition && { contentDisposition }),
+  ...(metadata && { metadata }),
+  ...(storageClass && { storageClass }),
+});
+
+// Signed into V4 URLs as extension headers, so the client must send them unchanged
+const objectHeaders = ({ cacheControl, contentDisposition, metadata, storageClass, kmsKeyId }: ObjectOptions = {}) => ({
+  ...(cacheControl && { 'cache-control': cacheControl }),
+  ...(contentDisposition && { 'content-disposition': contentDisposition }),
+  ...Object.fromEntries(Object.entries(metadata ?? {}).map(([name, value]) => [`x-goog-meta-${name}`, value])),
+  ...(storageClass && { 'x-goog-storage-class': storageClass }),
+  ...(kmsKeyId && { 'x-goog-encryption-kms-key-name': kmsKeyId }),
+});
+
+export const gcpProvider: StorageProvider<GcpConfig> = {
+  id: 'gcp',
+
+  async signUpload(config, { key, contentType, expiresIn, onlyIfAbsent, objectOptions }) {
+    assertNoTags(objectOptions);
+    const file = createGcpStorage(config).bucket(config.bucket).file(key);
+    const extensionHeaders: Record<string, string> = {
+      ...objectHeaders(objectOptions),
+      ...(onlyIfAbsent && { 'x-goog-if-generation-match': '0' }),
+    };
+    const [signedUrl] = await file.getSignedUrl({
+      version: 'v4',
+      action: 'write',
+      expires: Date.now() + expiresIn * 1000,
+      contentType,
+      extensionHeaders,
+    });
+
+    return {
+      signedUrl,
+      method: 'PUT',
+      headers: { 'Content-Type': contentType, ...extensionHeaders },
+      expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+    };
+  },
+
+  async signDownload(config, { key, expiresIn, contentDisposition }) {
+    const file = createGcpStorage(config).bucket(config.bucket).file(key);
+    const [signedUrl] = await file.getSignedUrl({
+      version: 'v4',
+      action: 'read',
+      expires: Date.now() + expiresIn * 1000,
+      ...(contentDisposition && { responseDisposition: contentDisposition }),
+    });
+
+    return {
+      signedUrl,
+      method: 'GET',
+      headers: {},
+      expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+    };
+  },
+
+  async head(config, key) {
+    try {
+      const [metadata] = await createGcpStorage(config).bucket(config.bucket).file(key).getMetadata();
+      return {
+        key,
+        size: Number(metadata.size ?? 0),
+        contentType: metadata.contentType,
+        lastModified: metadata.updated,
+        etag: metadata.etag,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return undefined;
+      throw error;
+    }
+  },
+
+  async open(config, key) {
+    const bucket = createGcpStorage(config).bucket(config.bucket);
+    try {
+      const [metadata] = await bucket.file(key).getMetadata();
+      // Custom metadata values come back as JSON scalars
+      const custom = Object.fromEntries(Object.entries(metadata.metadata ?? {})
+        .filter(([, value]) => value !== null && value !== undefined)
+        .map(([name, value]) => [name, String(value)]));
+      return {
+        info: {
+          key,
+          size: Number(metadata.size ?? 0),
+          contentType: metadata.contentType,
+          lastModified: metadata.updated,
+          etag: metadata.etag,
+        },
+        objectOptions: {
+          ...(metadata.cacheControl && { cacheControl: metadata.cacheControl }),
+          ...(metadata.contentDisposition && { contentDisposition: metadata.contentDisposition }),
+          ...(Object.keys(custom).length > 0 && { metadata: custom }),
+        },
+        // Pinned to the generation just read, so a concurrent overwrite cannot mix two versions
+        body: bucket.file(key, { ...(metadata.generation !== undefined && { generation: metadata.generation }) }).createReadStream(),
+      };
+    } catch (error) {
+      if (isNotFound(error)) throw new AppError('OBJECT_NOT_FOUND', `Object "${key}" not found`, 404);
+      throw error;
+    }
+  },
+
+  async delete(config, key) {
+    await createGcpStorage(config).bucket(config.bucket).file(key).delete();
+  },
+
+  async list(config, { prefix, delimiter, pageToken, maxResults }) {
+    const [files, nextQuery, response] = await createGcpStorage(config).bucket(config.bucket).getFiles({
+      autoPaginate: false,
+      ...(prefix && { prefix }),
+      ...(delimiter && { delimiter }),
+      ...(pageToken && { pageToken }),
+      ...(maxResults && { maxResults }),
+    });
+
+    return {
+      objects: files.map((file) => ({
+        key: file.name,
+        size: Number(file.metadata.size ?? 0),
+        contentType: file.metadata.contentType,
+        lastModified: file.metadata.updated,
+        etag: file.metadata.etag,
+      })),
+      prefixes: (response as { prefixes?: string[] } | undefined)?.prefixes ?? [],
+      nextPageToken: (nextQuery as { pageToken?: string } | null)?.pageToken,
+    };
+  },
+
+  async upload(config, key, body, contentType, { onlyIfAbsent, objectOptions, checksums } = {}) {
+    assertNoTags(objectOptions);
+    const file = createGcpStorage(config).bucket(config.bucket).file(key, {
+      ...(objectOptions?.kmsKeyId && { kmsKeyName: objectOptions.kmsKeyId }),
+    });
+    try {
+      // The client library compares its CRC32C of the stream with the stored
+      // object's and deletes the object when they differ
+      await pipeline(body, file.createWriteStream({
+        contentType,
+        metadata: objectMetadata(objectOptions),
+        resumable: true,
+        validation: 'crc32c',
+        ...(onlyIfAbsent && { preconditionOpts: ONLY_IF_ABSENT }),
+      }));
+    } catch (error) {
+      if (onlyIfAbsent && isPreconditionFailed(error)) {
+        throw new AppError('OBJECT_EXISTS', `Object "${key}" already exists`, 409);
+      }
+      throw error;
+    }
+
+    const location = `gs://${config.bucket}/${key}`;
+    const stored = file.metadata.crc32c;
+    // Without a stored CRC32C the upload was not checked against anything
+    if (!checksums || !stored) return { location };
+
+    try {
+      assertChecksum('crc32c', checksums(), stored);
+    } catch (error) {
+      await this.delete(config, key);
+      throw error;
+    }
+    return { location, verifiedWith: 'crc32c' };
+  },
+
+  async copy(config, sourceKey, key, { onlyIfAbsent, sourceBucket = config.bucket } = {}) {
+    const storage = createGcpStorage(config);
+    try {
+      await storage.bucket(sourceBucket).file(sourceKey).copy(storage.bucket(config.bucket).file(key), {
+        ...(onlyIfAbsent && { preconditionOpts: ONLY_IF_ABSENT }),
+      });
+    } catch (error) {
+      if (isNotFound(error)) throw new AppError('OBJECT_NOT_FOUND', `Object "${sourceKey}" not found`, 404);
+      if (onlyIfAbsent && isPreconditionFailed(error)) {
+        throw new AppError('OBJECT_EXISTS', `Object "${key}" already exists`, 409);
+      }
+      throw error;
+    }
+    return { location: `gs://${config.bucket}/${key}` };
+  },
+
+  // The session URI accepts chunked PUTs with Content-Range headers and can be
+  // queried to resume after a failure; no per-part signing is needed
+  async createMultipart(config, { key, contentType, origin, onlyIfAbsent, objectOptions }) {
+    assertNoTags(objectOptions);
+    const file = createGcpStorage(config).bucket(config.bucket).file(key, {
+      ...(objectOptions?.kmsKeyId && { kmsKeyName: objectOptions.kmsKeyId }),
+    });
+    // The precondition is checked when the final chunk finalizes the object
+    const [sessionUrl] = await file.createResumableUpload({
+      metadata: { contentType, ...objectMetadata(objectOptions) },
+      ...(origin && { origin }),
+      ...(onlyIfAbsent && { preconditionOpts: ONLY_IF_ABSENT }),
+    });
+
+    return { uploadId: sessionUrl, strategy: 'resumable', sessionUrl };
+  },
+
+  async signParts() {
+    throw new Error('GCS resumable uploads do not use signed parts; PUT chunks to the session URL');
+  },
+
+  async completeMultipart() {
+    // The final chunk PUT to the session URL finalizes the object
+  },
+
+  async abortMultipart(_config, { uploadId }) {
+    // Cancelling a resumable session is a DELETE to its URI (GCS answers 499).
+    // The URI comes from the client, so only Google's upload endpoint is contacted.
+    if (!isSessionUrl(uploadId)) {
+      throw new AppError('INVALID_UPLOAD_ID', 'Upload ID is not a GCS resumable session URL', 400);
+    }
+    await fetch(uploadId, { method: 'DELETE' });
+    return { discarded: true };
+  },
+
+  // GCS has one header list, used both to allow request headers and to expose response headers
+  async getCors(config) {
+    const [metadata] = await createGcpStorage(config).bucket(config.bucket).getMetadata();
+    return (metadata.cors ?? []).map((rule) => ({
+      origins: rule.origin ?? [],
+      methods: rule.method ?? [],
+      allowedHeaders: rule.responseHeader ?? [],
+      exposeHeaders: rule.responseHeader ?? [],
+      maxAgeSeconds: rule.maxAgeSeconds,
+    }));
+  },
+
+  // Both header lists land in `responseHeader`
+  async setCors(config, rules) {
+    await createGcpStorage(config).bucket(config.bucket).setMetadata({
+      cors: rules.map((rule) => ({
+        origin: rule.origins,
+        method: rule.methods,
+        responseHeader: [...new Set([...rule.allowedHeaders, ...rule.exposeHeaders])],
+        ...(rule.maxAgeSeconds !== undefined && { maxAgeSeconds: rule.maxAgeSeconds }),
+      })),
+    });
+  },
+};
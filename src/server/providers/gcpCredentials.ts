@@ -0,0 +1,85 @@
+import { existsSync } from 'node:fs';
+import { z } from 'zod';
+import { AppError } from '../utils/errors.js';
+
+const serviceAccountKeySchema = z.object({
+  type: z.literal('service_account').optional(),
+  project_id: z.string().optional(),
+  client_email: z.string().email(),
+  private_key: z.string().includes('PRIVATE KEY', { message: 'Must be a PEM-encoded private key' }),
+});
+
+export type GcpCredentialOptions =
+  | { credentials: { client_email: string; private_key: string } }
+  | { keyFilename: string }
+  | Record<string, never>;
+
+const invalidCredentials = (message: string, details?: unknown): AppError =>
+  new AppError('GCP_CREDENTIALS_INVALID', message, 400, details);
+
+/**
+ * A config sent by a client must carry its own service-account JSON. A key
+ * file path or no key at all would sign with the server's credentials, so
+ * those are only accepted from storage profiles.
+ */
+export const assertInlineGcpKey = (keyFile: unknown): void => {
+  if (typeof keyFile !== 'string' || !keyFile.trim().startsWith('{')) {
+    throw invalidCredentials(
+      'keyFile: paste the service account JSON key; key file paths and default credentials are only available through storage profiles',
+      [{ path: ['keyFile'], message: 'Service account JSON required' }]
+    );
+  }
+};
+
+/**
+ * Interprets the GCP `keyFile` field, which may hold pasted service-account
+ * JSON, a path to a key file on the server, or nothing at all (application
+ * default credentials). Only profiles reach the last two; see assertInlineGcpKey.
+ */
+export const resolveGcpCredentials = (keyFile: string | undefined): GcpCredentialOptions => {
+  const value = keyFile?.trim();
+
+  if (!value) {
+    return {};
+  }
+
+  if (value.startsWith('{')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch (error) {
+      throw invalidCredentials(
+        `keyFile: not valid JSON (${error instanceof Error ? error.message : 'parse error'})`,
+        [{ path: ['keyFile'], message: 'Invalid JSON' }]
+      );
+    }
+
+    const result = serviceAccountKeySchema.safeParse(parsed);
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) => ({
+        path: ['keyFile', ...issue.path],
+        message: issue.message,
+      }));
+      throw invalidCredentials(
+        `Invalid service account key: ${issues.map((i) => `${i.path.join('.')} ${i.message}`).join('; ')}`,
+        issues
+      );
+    }
+
+    return {
+      credentials: {
+        client_email: result.data.client_email,
+        private_key: result.data.private_key,
+      },
+    };
+  }
+
+  if (!existsSync(value)) {
+    throw invalidCredentials(
+      'keyFile: key file not found on the server',
+      [{ path: ['keyFile'], message: 'File not found' }]
+    );
+  }
+
+  return { keyFilename: value };
+};
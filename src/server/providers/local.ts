@@ -0,0 +1,350 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { createReadStream, createWriteStream } from 'node:fs';
+import type { Dirent } from 'node:fs';
+import { link, mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, relative, resolve, sep } from 'node:path';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { LocalConfig, ObjectOptions } from '../storage/schemas.js';
+import { assertChecksum } from '../storage/checksums.js';
+import { AppError } from '../utils/errors.js';
+import { signLocalUrl } from './localSigning.js';
+import type { ListResult, ObjectInfo, StorageProvider, StoredObject, UploadOptions } from './types.js';
+
+/**
+ * Filesystem-backed provider for development and offline testing. Layout
+ * under LOCAL_STORAGE_DIR:
+ *
+ *   <bucket>/<key>             object bytes
+ *   .meta/<bucket>/<key>.json  content type, ETag and object options
+ *   .uploads/<uploadId>/       staged multipart parts
+ *   .tmp/                      in-progress writes, renamed into place when complete
+ *
+ * Bucket names cannot start with a dot, so they never collide with the
+ * internal directories.
+ */
+const DEFAULT_LIST_SIZE = 1000;
+const UPLOAD_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+interface ObjectMetadata {
+  contentType: string;
+  etag: string;
+  objectOptions?: ObjectOptions | undefined;
+}
+
+// Enabled by default outside production; LOCAL_STORAGE_ENABLED overrides either way
+export const localStorageEnabled = (): boolean =>
+  process.env.LOCAL_STORAGE_ENABLED
+    ? process.env.LOCAL_STORAGE_ENABLED === 'true'
+    : process.env.NODE_ENV !== 'production';
+
+const storageRoot = (): string => resolve(process.env.LOCAL_STORAGE_DIR || 'data/storage');
+
+const isNotFound = (error: unknown): boolean =>
+  (error as NodeJS.ErrnoException | undefined)?.code === 'ENOENT';
+
+const isAlreadyExists = (error: unknown): boolean =>
+  (error as NodeJS.ErrnoException | undefined)?.code === 'EEXIST';
+
+const objectPath = (bucket: string, key: string): string => {
+  const bucketDir = join(storageRoot(), bucket);
+  const path = resolve(bucketDir, key);
+  if (!key || !path.startsWith(bucketDir + sep)) {
+    throw new AppError('INVALID_KEY', `Object key "${key}" resolves outside the bucket`);
+  }
+  return path;
+};
+
+const metadataPath = (bucket: string, key: string): string =>
+  join(storageRoot(), '.meta', bucket, `${key}.json`);
+
+const uploadDir = (uploadId: string): string => {
+  if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+    throw new AppError('INVALID_UPLOAD_ID', 'Upload ID is not valid');
+  }
+  return join(storageRoot(), '.uploads', uploadId);
+};
+
+const partPath = (uploadId: string, partNumber: number): string =>
+  join(uploadDir(uploadId), partNumber.toString().padStart(5, '0'));
+
+/**
+ * Writes to a temporary file first so readers never see a partial object.
+ * With `onlyIfAbsent` the file is hard-linked into place, which fails
+ * atomically if the path already exists.
+ */
+const writeAtomically = async (
+  path: string,
+  body: Readable,
+  { onlyIfAbsent }: UploadOptions = {}
+): Promise<{ size: number; etag: string }> => {
+  const tmpDir = join(storageRoot(), '.tmp');
+  const tmpPath = join(tmpDir, randomUUID());
+  const hash = createHash('md5');
+  let size = 0;
+
+  await mkdir(tmpDir, { recursive: true });
+  await mkdir(dirname(path), { recursive: true });
+  try {
+    await pipeline(body, new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        hash.update(chunk);
+        size += chunk.length;
+        callback(null, chunk);
+      },
+    }), createWriteStream(tmpPath));
+    if (onlyIfAbsent) {
+      await link(tmpPath, path);
+      await rm(tmpPath);
+    } else {
+      await rename(tmpPath, path);
+    }
+  } catch (error) {
+    await rm(tmpPath, { force: true });
+    if (isAlreadyExists(error)) {
+      throw new AppError('OBJECT_EXISTS', `Object "${relative(storageRoot(), path)}" already exists`, 409);
+    }
+    throw error;
+  }
+
+  return { size, etag: `"${hash.digest('hex')}"` };
+};
+
+export const writeLocalObject = async (
+  bucket: string,
+  key: string,
+  body: Readable,
+  contentType: string,
+  options: UploadOptions = {}
+): Promise<ObjectInfo> => {
+  const path = objectPath(bucket, key);
+  const { size, etag } = await writeAtomically(path, body, options);
+  const metadata: ObjectMetadata = {
+    contentType,
+    etag,
+    ...(options.objectOptions && { objectOptions: options.objectOptions }),
+  };
+
+  await mkdir(dirname(metadataPath(bucket, key)), { recursive: true });
+  await writeFile(metadataPath(bucket, key), JSON.stringify(metadata));
+  return { key, size, contentType, etag, lastModified: new Date().toISOString() };
+};
+
+// Stores one part of a multipart upload; resolves to the part's ETag
+export const writeLocalPart = async (uploadId: string, partNumber: number, body: Readable): Promise<string> => {
+  try {
+    await stat(uploadDir(uploadId));
+  } catch (error) {
+    if (isNotFound(error)) {
+      throw new AppError('UPLOAD_NOT_FOUND', `Multipart upload ${uploadId} does not exist`, 404);
+    }
+    throw error;
+  }
+  const { etag } = await writeAtomically(partPath(uploadId, partNumber), body);
+  return etag;
+};
+
+const readMetadata = async (bucket: string, key: string): Promise<Partial<ObjectMetadata>> =>
+  JSON.parse(await readFile(metadataPath(bucket, key), 'utf8').catch(() => '{}')) as Partial<ObjectMetadata>;
+
+export const headLocalObject = async (bucket: string, key: string): Promise<ObjectInfo | undefined> => {
+  try {
+    const stats = await stat(objectPath(bucket, key));
+    if (!stats.isFile()) return undefined;
+
+    const metadata = await readMetadata(bucket, key);
+    return {
+      key,
+      size: stats.size,
+      contentType: metadata.contentType ?? 'application/octet-stream',
+      lastModified: stats.mtime.toISOString(),
+      etag: metadata.etag,
+    };
+  } catch (error) {
+    if (isNotFound(error)) return undefined;
+    throw error;
+  }
+};
+
+export const openLocalObject = async (bucket: string, key: string): Promise<StoredObject | undefined> => {
+  const info = await headLocalObject(bucket, key);
+  if (!info) return undefined;
+
+  const { objectOptions = {} } = await readMetadata(bucket, key);
+  return { info, objectOptions, body: createReadStream(objectPath(bucket, key)) };
+};
+
+const listKeys = async (dir: string, base = ''): Promise<string[]> => {
+  let entries: Dirent[];
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    if (isNotFound(error)) return [];
+    throw error;
+  }
+
+  const keys = await Promise.all(entries.map((entry) => entry.isDirectory()
+    ? listKeys(join(dir, entry.name), `${base}${entry.name}/`)
+    : Promise.resolve([`${base}${entry.name}`])));
+  return keys.flat();
+};
+
+export const localProvider: StorageProvider<LocalConfig> = {
+  id: 'local',
+
+  async signUpload(config, { key, contentType, expiresIn, onlyIfAbsent, objectOptions }) {
+    objectPath(config.bucket, key);
+    const { url, expiresAt } = signLocalUrl({
+      method: 'PUT',
+      bucket: config.bucket,
+      key,
+      contentType,
+      onlyIfAbsent,
+      ...(objectOptions && { objectOptions: JSON.stringify(objectOptions) }),
+    }, expiresIn);
+
+    return {
+      signedUrl: url,
+      method: 'PUT',
+      headers: {
+        'Content-Type': contentType,
+        ...(onlyIfAbsent && { 'If-None-Match': '*' }),
+      },
+      expiresAt,
+    };
+  },
+
+  async signDownload(config, { key, expiresIn, contentDisposition }) {
+    objectPath(config.bucket, key);
+    const { url, expiresAt } = signLocalUrl(
+      { method: 'GET', bucket: config.bucket, key, contentDisposition },
+      expiresIn
+    );
+
+    return { signedUrl: url, method: 'GET', headers: {}, expiresAt };
+  },
+
+  async head(config, key) {
+    return headLocalObject(config.bucket, key);
+  },
+
+  async delete(config, key) {
+    await rm(objectPath(config.bucket, key), { force: true });
+    await rm(metadataPath(config.bucket, key), { force: true });
+  },
+
+  async list(config, { prefix = '', delimiter, pageToken, maxResults = DEFAULT_LIST_SIZE }) {
+    const keys = (await listKeys(join(storageRoot(), config.bucket)))
+      .filter((key) => key.startsWith(prefix));
+
+    // Group keys below the next delimiter into common prefixes, as S3 does
+    const entries = new Map<string, boolean>();
+    for (const key of keys) {
+      const index = delimiter ? key.indexOf(delimiter, prefix.length) : -1;
+      if (index >= 0 && delimiter) {
+        entries.set(key.slice(0, index + delimiter.length), true);
+      } else {
+        entries.set(key, false);
+      }
+    }
+
+    const page = [...entries.keys()]
+      .sort()
+      .filter((entry) => !pageToken || entry > pageToken)
+      .slice(0, maxResults);
+    const objects = await Promise.all(page
+      .filter((entry) => !entries.get(entry))
+      .map((key) => headLocalObject(config.bucket, key)));
+
+    const result: ListResult = {
+      objects: objects.filter((object): object is ObjectInfo => object !== undefined),
+      prefixes: page.filter((entry) => entries.get(entry)),
+    };
+    const last = page[page.length - 1];
+    if (last && page.length === maxResults && [...entries.keys()].some((entry) => entry > last)) {
+      result.nextPageToken = last;
+    }
+    return result;
+  },
+
+  async upload(config, key, body, contentType, { onlyIfAbsent, objectOptions, checksums } = {}) {
+    const { etag } = await writeLocalObject(config.bucket, key, body, contentType, { onlyIfAbsent, objectOptions });
+    if (checksums) {
+      try {
+        assertChecksum('md5', checksums(), Buffer.from((etag ?? '').replace(/"/g, ''), 'hex').toString('base64'));
+      } catch (error) {
+        await this.delete(config, key);
+        throw error;
+      }
+    }
+    return { location: `local://${config.bucket}/${key}`, verifiedWith: 'md5' };
+  },
+
+  async open(config, key) {
+    const object = await openLocalObject(config.bucket, key);
+    if (!object) {
+      throw new AppError('OBJECT_NOT_FOUND', `Object "${key}" not found`, 404);
+    }
+    return object;
+  },
+
+  async copy(config, sourceKey, key, { onlyIfAbsent, sourceBucket = config.bucket } = {}) {
+    const source = await openLocalObject(sourceBucket, sourceKey);
+    if (!source) {
+      throw new AppError('OBJECT_NOT_FOUND', `Object "${sourceKey}" not found`, 404);
+    }
+    await writeLocalObject(config.bucket, key, source.body, source.info.contentType ?? 'application/octet-stream', {
+      onlyIfAbsent,
+      objectOptions: source.objectOptions,
+    });
+    return { location: `local://${config.bucket}/${key}` };
+  },
+
+  async createMultipart(config, { key }) {
+    objectPath(config.bucket, key);
+    const uploadId = randomUUID();
+    await mkdir(uploadDir(uploadId), { recursive: true });
+    return { uploadId, strategy: 'parts' };
+  },
+
+  async signParts(config, { key, uploadId, partNumbers }) {
+    uploadDir(uploadId);
+    const expiresIn = 3600;
+
+    return partNumbers.map((partNumber) => {
+      const { url, expiresAt } = signLocalUrl(
+        { method: 'PUT', bucket: config.bucket, key, uploadId, partNumber },
+        expiresIn
+      );
+      return { partNumber, signedUrl: url, method: 'PUT' as const, headers: {}, expiresAt };
+    });
+  },
+
+  async completeMultipart(config, { key, uploadId, contentType, parts, onlyIfAbsent, objectOptions }) {
+    const ordered = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+    for (const part of ordered) {
+      try {
+        await stat(partPath(uploadId, part.partNumber));
+      } catch (error) {
+        if (isNotFound(error)) {
+          throw new AppError('MULTIPART_PART_MISSING', `Part ${part.partNumber} was never uploaded`);
+        }
+        throw error;
+      }
+    }
+    const paths = ordered.map((part) => partPath(uploadId, part.partNumber));
+
+    const combined = Readable.from((async function* () {
+      for (const path of paths) {
+        yield* createReadStream(path);
+      }
+    })());
+    await writeLocalObject(config.bucket, key, combined, contentType, { onlyIfAbsent, objectOptions });
+    await rm(uploadDir(uploadId), { recursive: true, force: true });
+  },
+
+  async abortMultipart(_config, { uploadId }) {
+    await rm(uploadDir(uploadId), { recursive: true, force: true });
+    return { discarded: true };
+  },
+};
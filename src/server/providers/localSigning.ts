@@ -0,0 +1,84 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { logger } from '../utils/logger.js';
+
+// Mount path of the routes that serve signed local-storage URLs
+export const LOCAL_STORAGE_ROUTE = '/api/local-storage';
+
+// The request a signed URL authorizes; part uploads also bind the upload session
+export interface LocalUrlTarget {
+  method: 'PUT' | 'GET';
+  bucket: string;
+  key: string;
+  uploadId?: string | undefined;
+  partNumber?: number | undefined;
+  contentDisposition?: string | undefined;
+  // Single-object uploads: the stored type and conditional create are signed like S3's signed headers
+  contentType?: string | undefined;
+  onlyIfAbsent?: boolean | undefined;
+  // Object options as JSON; binding them to the URL stands in for a service's signed headers
+  objectOptions?: string | undefined;
+}
+
+let secret: Buffer | undefined;
+
+// Without LOCAL_STORAGE_SECRET, URLs signed before a restart stop validating
+const getSecret = (): Buffer => {
+  if (!secret) {
+    const configured = process.env.LOCAL_STORAGE_SECRET;
+    if (!configured) {
+      logger.warn('LOCAL_STORAGE_SECRET is not set; using a random per-process signing key');
+    }
+    secret = configured ? Buffer.from(configured) : randomBytes(32);
+  }
+  return secret;
+};
+
+const signatureFor = (target: LocalUrlTarget, expires: number): string =>
+  createHmac('sha256', getSecret())
+    .update([
+      target.method,
+      target.bucket,
+      target.key,
+      expires,
+      target.uploadId ?? '',
+      target.partNumber ?? '',
+      target.contentDisposition ?? '',
+      target.objectOptions ?? '',
+      target.contentType ?? '',
+      target.onlyIfAbsent ? '*' : '',
+    ].join('\n'))
+    .digest('hex');
+
+/**
+ * Builds a URL for the local-storage routes that is valid for `expiresIn`
+ * seconds. URLs are relative to the app unless LOCAL_STORAGE_PUBLIC_URL is set.
+ */
+export const signLocalUrl = (target: LocalUrlTarget, expiresIn: number): { url: string; expiresAt: string } => {
+  const expiresAt = new Date(Date.now() + expiresIn * 1000);
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+  const path = [target.bucket, ...target.key.split('/')].map(encodeURIComponent).join('/');
+  const query = new URLSearchParams({
+    ...(target.uploadId && { uploadId: target.uploadId }),
+    ...(target.partNumber !== undefined && { partNumber: String(target.partNumber) }),
+    ...(target.contentDisposition && { contentDisposition: target.contentDisposition }),
+    ...(target.objectOptions && { objectOptions: target.objectOptions }),
+    ...(target.contentType && { contentType: target.contentType }),
+    ...(target.onlyIfAbsent && { ifNoneMatch: '*' }),
+    expires: String(expires),
+    signature: signatureFor(target, expires),
+  });
+  const baseUrl = (process.env.LOCAL_STORAGE_PUBLIC_URL ?? '').replace(/\/$/, '');
+
+  return {
+    url: `${baseUrl}${LOCAL_STORAGE_ROUTE}/${path}?${query}`,
+    expiresAt: expiresAt.toISOString(),
+  };
+};
+
+export const verifyLocalSignature = (target: LocalUrlTarget, expires: number, signature: string): boolean => {
+  if (expires * 1000 < Date.now()) return false;
+
+  const expected = Buffer.from(signatureFor(target, expires), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
@@ -0,0 +1,35 @@
+import type { CloudConfig } from '../storage/schemas.js';
+import { AppError } from '../utils/errors.js';
+import type { ProviderId, StorageProvider } from './types.js';
+import { s3Provider } from './s3.js';
+import { gcpProvider } from './gcp.js';
+import { azureProvider } from './azure.js';
+import { localProvider, localStorageEnabled } from './local.js';
+
+const providers = new Map<ProviderId, StorageProvider>();
+
+/**
+ * Adds a provider implementation. Its config schema must also be part of
+ * `cloudConfigSchema` so requests targeting it pass validation.
+ */
+export const registerProvider = <C extends CloudConfig>(provider: StorageProvider<C>): void => {
+  providers.set(provider.id, provider as unknown as StorageProvider);
+};
+
+export const getProvider = (config: CloudConfig): StorageProvider => {
+  const provider = providers.get(config.provider);
+  if (!provider) {
+    throw new AppError('UNKNOWN_PROVIDER', `Storage provider "${config.provider}" is not registered`);
+  }
+  return provider;
+};
+
+export const listProviders = (): ProviderId[] => [...providers.keys()];
+
+registerProvider(s3Provider);
+registerProvider(gcpProvider);
+registerProvider(azureProvider);
+
+if (localStorageEnabled()) {
+  registerProvider(localProvider);
+}
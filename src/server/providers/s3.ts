@@ -0,0 +1,398 @@
+import { Agent as HttpAgent } from 'node:http';
+import { Agent as HttpsAgent } from 'node:https';
+import type { Readable } from 'node:stream';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  GetBucketCorsCommand,
+  PutBucketCorsCommand,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import type { StorageClass } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Upload } from '@aws-sdk/lib-storage';
+import type { ObjectOptions, S3Config } from '../storage/schemas.js';
+import { assertChecksum } from '../storage/checksums.js';
+import { encodeTags } from '../storage/objectOptions.js';
+import { listProfiles } from '../storage/profiles.js';
+import { AppError } from '../utils/errors.js';
+import { guardedLookup } from '../utils/sourceFetch.js';
+import { checkSourceUrl, getSourcePolicy } from '../utils/sourcePolicy.js';
+import type { StorageProvider } from './types.js';
+import { resolveS3Settings } from './s3Presets.js';
+
+const endpointOrigin = (endpoint: string): string | undefined => {
+  try {
+    return new URL(endpoint).origin;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * The server connects to a custom endpoint itself, so one sent by a client is
+ * held to the source URL policy: the URL here, and every address its host
+ * resolves to when connecting. Endpoints named by a server-side profile are
+ * trusted, which is how a MinIO on localhost stays reachable.
+ */
+const endpointAgents = (endpoint: string) => {
+  const origin = endpointOrigin(endpoint);
+  const trusted = listProfiles().some(({ config }) =>
+    config.provider === 's3' && config.endpoint && endpointOrigin(config.endpoint) === origin
+  );
+  if (trusted) return undefined;
+
+  try {
+    checkSourceUrl(new URL(endpoint));
+  } catch (error) {
+    throw new AppError(
+      'ENDPOINT_NOT_ALLOWED',
+      `Endpoint ${endpoint} is not allowed: ${error instanceof Error ? error.message : 'blocked by the source URL policy'}; use a storage profile for internal endpoints`,
+      403
+    );
+  }
+
+  const lookup = guardedLookup(getSourcePolicy());
+  return {
+    httpAgent: new HttpAgent({ keepAlive: true, lookup }),
+    httpsAgent: new HttpsAgent({ keepAlive: true, lookup }),
+  };
+};
+
+export const createS3Client = (
+  config: S3Config,
+  { presign = false }: { presign?: boolean } = {}
+): S3Client => {
+  const settings = resolveS3Settings(config);
+  // Preset endpoints are built from validated account IDs and regions; only a custom one is checked
+  const agents = config.endpoint ? endpointAgents(config.endpoint) : undefined;
+
+  return new S3Client({
+    region: settings.region,
+    credentials: {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+      ...(config.sessionToken && { sessionToken: config.sessionToken }),
+    },
+    ...(settings.endpoint && { endpoint: settings.endpoint }),
+    ...(agents && { requestHandler: agents }),
+    forcePathStyle: settings.forcePathStyle,
+    // A presigned URL cannot carry a checksum of a body it has not seen; the SDK
+    // would otherwise sign the CRC32 of an empty payload and S3 would reject the PUT
+    requestChecksumCalculation: presign ? 'WHEN_REQUIRED' : settings.checksums,
+    responseChecksumValidation: settings.checksums,
+  });
+};
+
+const isNotFound = (error: unknown): boolean =>
+  error instanceof S3ServiceException && error.$metadata.httpStatusCode === 404;
+
+// 412 when the key exists; 409 when a concurrent conditional write won the race
+const isPreconditionFailed = (error: unknown): boolean =>
+  error instanceof S3ServiceException && [409, 412].includes(error.$metadata.httpStatusCode ?? 0);
+
+const isNoCorsConfiguration = (error: unknown): boolean =>
+  error instanceof S3ServiceException && error.name === 'NoSuchCORSConfiguration';
+
+const objectExists = (key: string) => new AppError('OBJECT_EXISTS', `Object "${key}" already exists`, 409);
+
+const objectNotFound = (key: string) => new AppError('OBJECT_NOT_FOUND', `Object "${key}" not found`, 404);
+
+// Command parameters shared by PutObject, Upload and CreateMultipartUpload
+const objectParams = ({ cacheControl, contentDisposition, metadata, tags, storageClass, kmsKeyId }: ObjectOptions = {}) => ({
+  ...(cacheControl && { CacheControl: cacheControl }),
+  ...(contentDisposition && { ContentDisposition: contentDisposition }),
+  ...(metadata && { Metadata: metadata }),
+  ...(tags && { Tagging: encodeTags(tags) }),
+  ...(storageClass && { StorageClass: storageClass as StorageClass }),
+  ...(kmsKeyId && { ServerSideEncryption: 'aws:kms' as const, SSEKMSKeyId: kmsKeyId }),
+});
+
+// The same options as the headers a presigned PUT must carry
+const objectHeaders = ({ cacheControl, contentDisposition, metadata, tags, storageClass, kmsKeyId }: ObjectOptions = {}) => ({
+  ...(cacheControl && { 'Cache-Control': cacheControl }),
+  ...(contentDisposition && { 'Content-Disposition': contentDisposition }),
+  ...Object.fromEntries(Object.entries(metadata ?? {}).map(([name, value]) => [`x-amz-meta-${name}`, value])),
+  ...(tags && { 'x-amz-tagging': encodeTags(tags) }),
+  ...(storageClass && { 'x-amz-storage-class': storageClass }),
+  ...(kmsKeyId && {
+    'x-amz-server-side-encryption': 'aws:kms',
+    'x-amz-server-side-encryption-aws-kms-key-id': kmsKeyId,
+  }),
+});
+
+export const s3Provider: StorageProvider<S3Config> = {
+  id: 's3',
+
+  async signUpload(config, { key, contentType, expiresIn, onlyIfAbsent, objectOptions }) {
+    const command = new PutObjectCommand({
+      Bucket: config.bucket,
+      Key: key,
+      ContentType: contentType,
+      ...objectParams(objectOptions),
+      ...(onlyIfAbsent && { IfNoneMatch: '*' }),
+    });
+    const headers = objectHeaders(objectOptions);
+    // The presigner would otherwise move x-amz-* headers into the query string;
+    // keeping them as signed headers makes S3 reject a PUT that drops or alters them
+    const unhoistableHeaders = new Set(
+      Object.keys(headers).filter((name) => name.startsWith('x-amz-'))
+    );
+
+    return {
+      signedUrl: await getSignedUrl(createS3Client(config, { presign: true }), command, { expiresIn, unhoistableHeaders }),
+      method: 'PUT',
+      headers: {
+        'Content-Type': contentType,
+        ...headers,
+        ...(onlyIfAbsent && { 'If-None-Match': '*' }),
+      },
+      expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+    };
+  },
+
+  async signDownload(config, { key, expiresIn, contentDisposition }) {
+    const command = new GetObjectCommand({
+      Bucket: config.bucket,
+      Key: key,
+      ResponseContentDisposition: contentDisposition,
+    });
+
+    return {
+      signedUrl: await getSignedUrl(createS3Client(config, { presign: true }), command, { expiresIn }),
+      method: 'GET',
+      headers: {},
+      expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+    };
+  },
+
+  async head(config, key) {
+    try {
+      const result = await createS3Client(config).send(new HeadObjectCommand({
+        Bucket: config.bucket,
+        Key: key,
+      }));
+      return {
+        key,
+        size: result.ContentLength ?? 0,
+        contentType: result.ContentType,
+        lastModified: result.LastModified?.toISOString(),
+        etag: result.ETag,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return undefined;
+      throw error;
+    }
+  },
+
+  async open(config, key) {
+    try {
+      const result = await createS3Client(config).send(new GetObjectCommand({ Bucket: config.bucket, Key: key }));
+      return {
+        info: {
+          key,
+          size: result.ContentLength ?? 0,
+          contentType: result.ContentType,
+          lastModified: result.LastModified?.toISOString(),
+          etag: result.ETag,
+        },
+        objectOptions: {
+          ...(result.CacheControl && { cacheControl: result.CacheControl }),
+          ...(result.ContentDisposition && { contentDisposition: result.ContentDisposition }),
+          ...(result.Metadata && Object.keys(result.Metadata).length > 0 && { metadata: result.Metadata }),
+        },
+        // The Node.js runtime returns the body as an IncomingMessage
+        body: result.Body as Readable,
+      };
+    } catch (error) {
+      if (isNotFound(error)) throw objectNotFound(key);
+      throw error;
+    }
+  },
+
+  async delete(config, key) {
+    await createS3Client(config).send(new DeleteObjectCommand({ Bucket: config.bucket, Key: key }));
+  },
+
+  async list(config, { prefix, delimiter, pageToken, maxResults }) {
+    const result = await createS3Client(config).send(new ListObjectsV2Command({
+      Bucket: config.bucket,
+      Prefix: prefix,
+      Delimiter: delimiter,
+      ContinuationToken: pageToken,
+      MaxKeys: maxResults,
+    }));
+
+    return {
+      objects: (result.Contents ?? []).map((object) => ({
+        key: object.Key ?? '',
+        size: object.Size ?? 0,
+        lastModified: object.LastModified?.toISOString(),
+        etag: object.ETag,
+      })),
+      prefixes: (result.CommonPrefixes ?? []).map((p) => p.Prefix ?? ''),
+      nextPageToken: result.NextContinuationToken,
+    };
+  },
+
+  async upload(config, key, body, contentType, { onlyIfAbsent, objectOptions, checksums } = {}) {
+    // S3 rejects a PUT or part whose x-amz-checksum-sha256 does not match the bytes received
+    const validated = resolveS3Settings(config).checksums === 'WHEN_SUPPORTED';
+    const upload = new Upload({
+      client: createS3Client(config),
+      params: {
+        Bucket: config.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        ...objectParams(objectOptions),
+        ...(validated && { ChecksumAlgorithm: 'SHA256' }),
+        // Applied to the single PUT or to CompleteMultipartUpload, whichever finishes the object
+        ...(onlyIfAbsent && { IfNoneMatch: '*' }),
+      },
+    });
+
+    let stored: string | undefined;
+    try {
+      stored = (await upload.done()).ChecksumSHA256;
+    } catch (error) {
+      if (onlyIfAbsent && isPreconditionFailed(error)) throw objectExists(key);
+      throw error;
+    }
+
+    // Multipart objects report a checksum of part checksums ("...-3"), already validated per part
+    if (checksums && stored && !stored.includes('-')) {
+      try {
+        assertChecksum('sha256', checksums(), stored);
+      } catch (error) {
+        await this.delete(config, key);
+        throw error;
+      }
+    }
+    return { location: `s3://${config.bucket}/${key}`, ...(validated && { verifiedWith: 'sha256' }) };
+  },
+
+  // CopyObject takes no If-None-Match, so the key is checked just before copying;
+  // a single copy is limited to 5 GB
+  async copy(config, sourceKey, key, { onlyIfAbsent, sourceBucket = config.bucket } = {}) {
+    if (onlyIfAbsent && await this.head(config, key)) throw objectExists(key);
+    try {
+      await createS3Client(config).send(new CopyObjectCommand({
+        Bucket: config.bucket,
+        Key: key,
+        CopySource: `${sourceBucket}/${sourceKey.split('/').map(encodeURIComponent).join('/')}`,
+        MetadataDirective: 'COPY',
+        TaggingDirective: 'COPY',
+      }));
+    } catch (error) {
+      if (isNotFound(error)) throw objectNotFound(sourceKey);
+      throw error;
+    }
+    return { location: `s3://${config.bucket}/${key}` };
+  },
+
+  async createMultipart(config, { key, contentType, objectOptions }) {
+    const { UploadId } = await createS3Client(config).send(new CreateMultipartUploadCommand({
+      Bucket: config.bucket,
+      Key: key,
+      ContentType: contentType,
+      ...objectParams(objectOptions),
+    }));
+
+    if (!UploadId) {
+      throw new Error('S3 did not return an upload ID');
+    }
+    return { uploadId: UploadId, strategy: 'parts' };
+  },
+
+  async signParts(config, { key, uploadId, partNumbers }) {
+    const client = createS3Client(config, { presign: true });
+    const expiresIn = 3600;
+
+    return Promise.all(partNumbers.map(async (partNumber) => ({
+      partNumber,
+      signedUrl: await getSignedUrl(client, new UploadPartCommand({
+        Bucket: config.bucket,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+      }), { expiresIn }),
+      method: 'PUT' as const,
+      headers: {},
+      expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+    })));
+  },
+
+  async completeMultipart(config, { key, uploadId, parts, onlyIfAbsent }) {
+    const missing = parts.find((part) => !part.etag);
+    if (missing) {
+      throw new Error(`ETag missing for part ${missing.partNumber}; expose ETag in the bucket CORS configuration`);
+    }
+
+    try {
+      await createS3Client(config).send(new CompleteMultipartUploadCommand({
+        Bucket: config.bucket,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: [...parts]
+            .sort((a, b) => a.partNumber - b.partNumber)
+            .map(({ partNumber, etag }) => ({ PartNumber: partNumber, ETag: etag })),
+        },
+        ...(onlyIfAbsent && { IfNoneMatch: '*' }),
+      }));
+    } catch (error) {
+      if (onlyIfAbsent && isPreconditionFailed(error)) throw objectExists(key);
+      throw error;
+    }
+  },
+
+  async abortMultipart(config, { key, uploadId }) {
+    await createS3Client(config).send(new AbortMultipartUploadCommand({
+      Bucket: config.bucket,
+      Key: key,
+      UploadId: uploadId,
+    }));
+    return { discarded: true };
+  },
+
+  async getCors(config) {
+    try {
+      const { CORSRules } = await createS3Client(config).send(new GetBucketCorsCommand({ Bucket: config.bucket }));
+      return (CORSRules ?? []).map((rule) => ({
+        origins: rule.AllowedOrigins ?? [],
+        methods: rule.AllowedMethods ?? [],
+        allowedHeaders: rule.AllowedHeaders ?? [],
+        exposeHeaders: rule.ExposeHeaders ?? [],
+        maxAgeSeconds: rule.MaxAgeSeconds,
+      }));
+    } catch (error) {
+      if (isNoCorsConfiguration(error)) return [];
+      throw error;
+    }
+  },
+
+  async setCors(config, rules) {
+    await createS3Client(config).send(new PutBucketCorsCommand({
+      Bucket: config.bucket,
+      CORSConfiguration: {
+        CORSRules: rules.map((rule) => ({
+          AllowedOrigins: rule.origins,
+          AllowedMethods: rule.methods,
+          AllowedHeaders: rule.allowedHeaders,
+          ExposeHeaders: rule.exposeHeaders,
+          ...(rule.maxAgeSeconds !== undefined && { MaxAgeSeconds: rule.maxAgeSeconds }),
+        })),
+      },
+    }));
+  },
+};
@@ -0,0 +1,88 @@
+import type { S3Config } from '../storage/schemas.js';
+
+export type S3PresetId = NonNullable<S3Config['preset']>;
+
+export interface S3Preset {
+  label: string;
+  // `{region}` and `{accountId}` are substituted from the config
+  endpointTemplate?: string;
+  requiresEndpoint: boolean;
+  requiresAccountId: boolean;
+  forcePathStyle: boolean;
+  defaultRegion: string;
+  /**
+   * Whether the service accepts the CRC32 checksum headers newer AWS SDKs add
+   * to every PutObject/UploadPart. S3-compatible services that reject them get
+   * checksums only when an operation requires one.
+   */
+  supportsDefaultChecksums: boolean;
+}
+
+export const S3_PRESETS: Record<S3PresetId, S3Preset> = {
+  aws: {
+    label: 'AWS S3',
+    requiresEndpoint: false,
+    requiresAccountId: false,
+    forcePathStyle: false,
+    defaultRegion: 'us-east-1',
+    supportsDefaultChecksums: true,
+  },
+  r2: {
+    label: 'Cloudflare R2',
+    endpointTemplate: 'https://{accountId}.r2.cloudflarestorage.com',
+    requiresEndpoint: false,
+    requiresAccountId: true,
+    forcePathStyle: false,
+    defaultRegion: 'auto',
+    supportsDefaultChecksums: false,
+  },
+  minio: {
+    label: 'MinIO',
+    requiresEndpoint: true,
+    requiresAccountId: false,
+    forcePathStyle: true,
+    defaultRegion: 'us-east-1',
+    supportsDefaultChecksums: true,
+  },
+  b2: {
+    label: 'Backblaze B2',
+    endpointTemplate: 'https://s3.{region}.backblazeb2.com',
+    requiresEndpoint: false,
+    requiresAccountId: false,
+    forcePathStyle: false,
+    defaultRegion: 'us-west-004',
+    supportsDefaultChecksums: false,
+  },
+  spaces: {
+    label: 'DigitalOcean Spaces',
+    endpointTemplate: 'https://{region}.digitaloceanspaces.com',
+    requiresEndpoint: false,
+    requiresAccountId: false,
+    forcePathStyle: false,
+    defaultRegion: 'nyc3',
+    supportsDefaultChecksums: false,
+  },
+};
+
+export interface S3ConnectionSettings {
+  region: string;
+  endpoint?: string;
+  forcePathStyle: boolean;
+  checksums: 'WHEN_SUPPORTED' | 'WHEN_REQUIRED';
+}
+
+// An explicit endpoint or forcePathStyle in the config overrides the preset
+export const resolveS3Settings = (config: S3Config): S3ConnectionSettings => {
+  const preset = S3_PRESETS[config.preset ?? 'aws'];
+  const region = config.region || preset.defaultRegion;
+  const endpoint = config.endpoint || preset.endpointTemplate
+    ?.replace('{region}', region)
+    .replace('{accountId}', config.accountId ?? '');
+
+  return {
+    region,
+    ...(endpoint && { endpoint }),
+    forcePathStyle: config.forcePathStyle ?? preset.forcePathStyle,
+    checksums: preset.supportsDefaultChecksums ? 'WHEN_SUPPORTED' : 'WHEN_REQUIRED',
+  };
+};
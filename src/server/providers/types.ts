@@ -0,0 +1,173 @@
+import type { Readable } from 'node:stream';
+import type { CloudConfig, ObjectOptions } from '../storage/schemas.js';
+import type { ChecksumAlgorithm, Checksums } from '../storage/checksums.js';
+import type { CorsRule } from '../storage/cors.js';
+
+export type ProviderId = CloudConfig['provider'];
+
+// A request the client performs directly against the storage service
+export interface SignedRequest {
+  signedUrl: string;
+  method: 'PUT' | 'GET';
+  headers: Record<string, string>;
+  expiresAt: string;
+}
+
+export interface SignUploadOptions {
+  key: string;
+  contentType: string;
+  expiresIn: number;
+  // Make the write conditional on the key not existing yet
+  onlyIfAbsent?: boolean | undefined;
+  // Returned as headers the client must send when the service signs or reads them from the request
+  objectOptions?: ObjectOptions | undefined;
+}
+
+export interface UploadOptions {
+  onlyIfAbsent?: boolean | undefined;
+  objectOptions?: ObjectOptions | undefined;
+  // Digests of the body, read once the upload has consumed it; providers check
+  // them against what the service stored and delete the object on a mismatch
+  checksums?: (() => Checksums) | undefined;
+}
+
+export interface UploadResult {
+  location: string;
+  // The checksum the storage service validated, if it validated one
+  verifiedWith?: ChecksumAlgorithm | undefined;
+}
+
+export interface CopyOptions {
+  onlyIfAbsent?: boolean | undefined;
+  // Copy from another bucket or container the same credentials can read
+  sourceBucket?: string | undefined;
+}
+
+export interface SignDownloadOptions {
+  key: string;
+  expiresIn: number;
+  // Overrides the Content-Disposition the object is served with, e.g. to force a download
+  contentDisposition?: string | undefined;
+}
+
+export interface ObjectInfo {
+  key: string;
+  size: number;
+  contentType?: string | undefined;
+  lastModified?: string | undefined;
+  etag?: string | undefined;
+}
+
+// An object opened for reading server-side, with the properties a copy carries over
+export interface StoredObject {
+  info: ObjectInfo;
+  objectOptions: ObjectOptions;
+  body: Readable;
+}
+
+export interface ListOptions {
+  prefix?: string | undefined;
+  delimiter?: string | undefined;
+  pageToken?: string | undefined;
+  maxResults?: number | undefined;
+}
+
+export interface ListResult {
+  objects: ObjectInfo[];
+  prefixes: string[];
+  nextPageToken?: string | undefined;
+}
+
+/**
+ * Multipart uploads come in two shapes: `parts`, where the client PUTs each
+ * part to its own signed URL and the server commits them (S3, Azure blocks),
+ * and `resumable`, where the client PUTs ranged chunks to one session URL
+ * (GCS).
+ */
+export interface MultipartUpload {
+  uploadId: string;
+  strategy: 'parts' | 'resumable';
+  sessionUrl?: string;
+}
+
+export interface MultipartCreateOptions {
+  key: string;
+  contentType: string;
+  origin?: string | undefined;
+  onlyIfAbsent?: boolean | undefined;
+  objectOptions?: ObjectOptions | undefined;
+}
+
+export interface MultipartPartsOptions {
+  key: string;
+  uploadId: string;
+  partNumbers: number[];
+  // Azure binds the encryption scope to each part's SAS
+  objectOptions?: ObjectOptions | undefined;
+}
+
+export interface MultipartCompleteOptions {
+  key: string;
+  uploadId: string;
+  contentType: string;
+  parts: { partNumber: number; etag?: string | undefined }[];
+  onlyIfAbsent?: boolean | undefined;
+  // Providers that set object properties on commit (Azure, local) read them here
+  objectOptions?: ObjectOptions | undefined;
+}
+
+export interface MultipartAbortOptions {
+  key: string;
+  uploadId: string;
+}
+
+export interface MultipartAbortResult {
+  // False where the service cannot delete the stored parts and leaves them to expire (Azure)
+  discarded: boolean;
+}
+
+export interface SignedPart extends SignedRequest {
+  partNumber: number;
+}
+
+export interface StorageProvider<C extends CloudConfig = CloudConfig> {
+  readonly id: C['provider'];
+
+  signUpload(config: C, options: SignUploadOptions): Promise<SignedRequest>;
+  signDownload(config: C, options: SignDownloadOptions): Promise<SignedRequest>;
+  head(config: C, key: string): Promise<ObjectInfo | undefined>;
+  delete(config: C, key: string): Promise<void>;
+  list(config: C, options: ListOptions): Promise<ListResult>;
+
+  /**
+   * Streams a body into storage server-side; resolves to the object location.
+   * Conditional writes that find the key taken reject with OBJECT_EXISTS, and
+   * bodies the service stored differently reject with CHECKSUM_MISMATCH.
+   */
+  upload(config: C, key: string, body: Readable, contentType: string, options?: UploadOptions): Promise<UploadResult>;
+
+  /**
+   * Streams an object out of storage with its content type, cache control,
+   * content disposition and metadata. A missing key rejects with
+   * OBJECT_NOT_FOUND.
+   */
+  open(config: C, key: string): Promise<StoredObject>;
+
+  /**
+   * Copies an object on the service side, within the bucket or from
+   * `sourceBucket`, keeping its content type and properties. A missing source
+   * rejects with OBJECT_NOT_FOUND, a taken key under `onlyIfAbsent` with
+   * OBJECT_EXISTS.
+   */
+  copy(config: C, sourceKey: string, key: string, options?: CopyOptions): Promise<UploadResult>;
+
+  createMultipart(config: C, options: MultipartCreateOptions): Promise<MultipartUpload>;
+  signParts(config: C, options: MultipartPartsOptions): Promise<SignedPart[]>;
+  completeMultipart(config: C, options: MultipartCompleteOptions): Promise<void>;
+  abortMultipart(config: C, options: MultipartAbortOptions): Promise<MultipartAbortResult>;
+
+  // Cross-origin rules browsers are held to; absent where uploads go through this server
+  getCors?(config: C): Promise<CorsRule[]>;
+  // Replaces the whole rule list; provided together with `getCors`
+  setCors?(config: C, rules: CorsRule[]): Promise<void>;
+}
@@ -0,0 +1,58 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import express from 'express';
+import { resolveProfile } from '../../middleware/resolveProfile.js';
+import { signRoutes } from '../sign.js';
+
+process.env.LOCAL_STORAGE_SECRET = 'test-secret';
+
+describe('download signing through a profile', () => {
+  let dir: string;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'sign-'));
+    const profilesFile = path.join(dir, 'profiles.json');
+    await writeFile(profilesFile, JSON.stringify({
+      team: { prefix: 'team', config: { provider: 'local', bucket: 'shared' } },
+    }));
+    // Profiles load on first use, so the file only has to exist before the first request
+    process.env.STORAGE_PROFILES_FILE = profilesFile;
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/sign', resolveProfile, signRoutes);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const signDownload = (fileName: string) =>
+    fetch(`${baseUrl}/api/sign/download`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fileName, profile: 'team' }),
+    });
+
+  it('signs objects in the profile folder', async () => {
+    const response = await signDownload('team/report.pdf');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ signedUrl: expect.stringMatching(/^\/api\/local-storage\/shared\/team\/report\.pdf\?/) });
+  });
+
+  it.each(['other/report.pdf', 'team/../other/report.pdf', 'teamwork/report.pdf'])('refuses %s', async (fileName) => {
+    const response = await signDownload(fileName);
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ error: { code: 'KEY_OUTSIDE_PROFILE' } });
+  });
+});
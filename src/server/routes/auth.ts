@@ -0,0 +1,116 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { apiKeyStore } from '../auth/apiKeys.js';
+import type { StoredApiKey } from '../auth/apiKeys.js';
+import { beginLogin, completeLogin, oidcSettings } from '../auth/oidc.js';
+import { endSession, startSession } from '../auth/sessions.js';
+import { SCOPES } from '../auth/types.js';
+import { authRequired, requireAuth } from '../middleware/authenticate.js';
+import { AppError, sendError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+const callbackSchema = z.object({
+  code: z.string().min(1),
+  state: z.string().min(1),
+});
+
+const createKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(SCOPES)).min(1),
+});
+
+// Everything but the hash
+const toKeyView = ({ hash: _hash, ...key }: StoredApiKey) => key;
+
+const oidcOrThrow = () => {
+  const settings = oidcSettings();
+  if (!settings) {
+    throw new AppError('LOGIN_NOT_CONFIGURED', 'Sign-in is not configured on this server; set OIDC_ISSUER and OIDC_CLIENT_ID', 404);
+  }
+  return settings;
+};
+
+// What the UI needs before rendering: whether to ask for a sign-in, and who is signed in
+router.get('/me', (req: Request, res: Response) => {
+  const identity = req.identity?.type === 'anonymous' ? undefined : req.identity;
+  res.json({
+    authRequired: authRequired(),
+    ...(oidcSettings() && { loginUrl: '/api/auth/login' }),
+    ...(identity && { identity }),
+  });
+});
+
+router.get('/login', async (req: Request, res: Response) => {
+  try {
+    return res.redirect(await beginLogin(oidcOrThrow(), req.query.returnTo));
+  } catch (error) {
+    logger.error('Error starting sign-in', { error });
+    return sendError(res, error, 'LOGIN_FAILED', 'Failed to start sign-in');
+  }
+});
+
+// The identity provider redirects the browser here with the authorization code
+router.get('/callback', async (req: Request, res: Response) => {
+  try {
+    const settings = oidcOrThrow();
+    if (typeof req.query.error === 'string') {
+      const description = typeof req.query.error_description === 'string' ? req.query.error_description : req.query.error;
+      throw new AppError('LOGIN_FAILED', `Sign-in failed: ${description}`);
+    }
+
+    const { identity, returnTo } = await completeLogin(settings, callbackSchema.parse(req.query));
+    startSession(res, identity);
+    logger.info('User signed in', { caller: { type: identity.type, id: identity.id, name: identity.name }, scopes: identity.scopes });
+    return res.redirect(returnTo);
+  } catch (error) {
+    logger.error('Error completing sign-in', { error });
+    return sendError(res, error, 'LOGIN_FAILED', 'Failed to complete sign-in');
+  }
+});
+
+router.post('/logout', (req: Request, res: Response) => {
+  endSession(req, res);
+  res.status(204).end();
+});
+
+router.get('/keys', requireAuth('admin'), async (_req: Request, res: Response) => {
+  try {
+    return res.json({ keys: (await apiKeyStore.list()).map(toKeyView) });
+  } catch (error) {
+    logger.error('Error listing API keys', { error });
+    return sendError(res, error, 'API_KEY_ERROR', 'Failed to list API keys');
+  }
+});
+
+// The key is returned once; only its hash is stored
+router.post('/keys', requireAuth('admin'), async (req: Request, res: Response) => {
+  try {
+    const { name, scopes } = createKeySchema.parse(req.body);
+    const createdBy = req.identity && req.identity.type !== 'anonymous'
+      ? `${req.identity.type}:${req.identity.name}`
+      : undefined;
+
+    const { key, token } = await apiKeyStore.create(name, scopes, createdBy);
+    return res.status(201).json({ ...toKeyView(key), key: token });
+  } catch (error) {
+    logger.error('Error creating API key', { error });
+    return sendError(res, error, 'API_KEY_ERROR', 'Failed to create the API key');
+  }
+});
+
+router.delete('/keys/:id', requireAuth('admin'), async (req: Request, res: Response) => {
+  try {
+    const key = await apiKeyStore.revoke(req.params.id ?? '');
+    if (!key) {
+      throw new AppError('API_KEY_NOT_FOUND', `API key ${req.params.id} not found`, 404);
+    }
+    return res.json(toKeyView(key));
+  } catch (error) {
+    logger.error('Error revoking API key', { error });
+    return sendError(res, error, 'API_KEY_ERROR', 'Failed to revoke the API key');
+  }
+});
+
+export const authRoutes = router;
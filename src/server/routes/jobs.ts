@@ -0,0 +1,297 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  cloudConfigSchema,
+  conflictPolicySchema,
+  keyOptionsSchema,
+  objectOptionsSchema,
+  retryPolicySchema,
+  sourceEntrySchema,
+  sourceOptionsSchema,
+  sourceUrlSchema,
+} from '../storage/schemas.js';
+import type { CloudConfig } from '../storage/schemas.js';
+import { COPY_MAX_OBJECTS, planCopy } from '../storage/copy.js';
+import { describeTarget, getProfile, inlineCredentialsAllowed, keyOptionsFor, prefixFor } from '../storage/profiles.js';
+import { assertInlineGcpKey } from '../providers/gcpCredentials.js';
+import { renderKey } from '../utils/keyTemplate.js';
+import { jobQueue } from '../jobs/queue.js';
+import { jobReport, toCsv } from '../jobs/report.js';
+import type { Job } from '../jobs/types.js';
+import { actorOf, canAccess } from '../auth/types.js';
+import type { Actor } from '../auth/types.js';
+import { AppError, sendError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { redactSourceOptions } from '../utils/sourceOptions.js';
+
+const router = Router();
+
+// Validation schema for job submission: plain `urls`, or `items` with per-source options
+const jobSchema = z.object({
+  urls: z.array(sourceUrlSchema).min(1).max(1000).optional(),
+  items: z.array(sourceEntrySchema).min(1).max(1000).optional(),
+  concurrency: z.number().int().min(1).max(16).optional(),
+  onConflict: conflictPolicySchema.optional(),
+  objectOptions: objectOptionsSchema.optional(),
+  retry: retryPolicySchema.optional(),
+  source: sourceOptionsSchema.optional(),
+  profile: z.string().optional(),
+  config: cloudConfigSchema,
+}).merge(keyOptionsSchema).refine(
+  (job) => (job.urls === undefined) !== (job.items === undefined),
+  'Provide either urls or items'
+);
+
+// Copies every object under `from.prefix` into the destination under `prefix`; `from` names
+// its storage the same way the body names the destination, by profile or config
+const copyJobSchema = z.object({
+  from: z.object({
+    profile: z.string().optional(),
+    config: cloudConfigSchema.optional(),
+    prefix: z.string().max(1024).default(''),
+  }),
+  prefix: z.string().max(1024).optional(),
+  concurrency: z.number().int().min(1).max(16).optional(),
+  onConflict: conflictPolicySchema.optional(),
+  retry: retryPolicySchema.optional(),
+  // List what would be copied without starting a job
+  dryRun: z.boolean().default(false),
+  profile: z.string().optional(),
+  config: cloudConfigSchema,
+});
+
+// Without item IDs every failed item is retried
+const jobRetrySchema = z.object({
+  itemIds: z.array(z.string()).min(1).optional(),
+});
+
+const jobReportSchema = z.object({
+  format: z.enum(['json', 'csv']).default('json'),
+});
+
+// The profile middleware resolves only the destination, so the source is resolved here by the same rules
+const resolveCopySource = ({ profile, config }: { profile?: string | undefined; config?: CloudConfig | undefined }): CloudConfig => {
+  if (profile !== undefined) {
+    const stored = getProfile(profile);
+    if (!stored) {
+      throw new AppError('PROFILE_NOT_FOUND', `Storage profile "${profile}" is not configured`);
+    }
+    return stored.config;
+  }
+  if (!config) {
+    throw new AppError('COPY_SOURCE_REQUIRED', 'Provide a profile or config for the copy source');
+  }
+  if (!inlineCredentialsAllowed()) {
+    throw new AppError('INLINE_CREDENTIALS_DISABLED', 'Inline credentials are disabled on this server; use a storage profile', 403);
+  }
+  if (config.provider === 'gcp') {
+    assertInlineGcpKey(config.keyFile);
+  }
+  return config;
+};
+
+const callerOf = (req: Request): Actor | undefined =>
+  req.identity && req.identity.type !== 'anonymous' ? actorOf(req.identity) : undefined;
+
+// Another caller's job is reported as missing rather than forbidden, so job IDs cannot be probed
+const findJob = (req: Request): Job | undefined => {
+  const job = jobQueue.get(req.params.id ?? '');
+  return job && canAccess(req.identity, job.createdBy) ? job : undefined;
+};
+
+// Never echo stored credentials back to the caller
+const toJobView = (job: Job) => {
+  const counts = { pending: 0, uploading: 0, success: 0, error: 0 };
+  for (const item of job.items) {
+    counts[item.status]++;
+  }
+
+  // Copy jobs know each object's size up front, so progress is also reported in bytes
+  const bytes = job.from && job.items.reduce(
+    (total, item) => ({
+      total: total.total + (item.size ?? 0),
+      done: total.done + (item.status === 'success' ? item.size ?? 0 : Math.floor(((item.size ?? 0) * item.progress) / 100)),
+    }),
+    { total: 0, done: 0 }
+  );
+
+  return {
+    id: job.id,
+    status: job.status,
+    provider: job.provider,
+    target: job.target,
+    profile: job.profile,
+    concurrency: job.concurrency,
+    onConflict: job.onConflict ?? 'overwrite',
+    objectOptions: job.objectOptions,
+    retry: job.retry,
+    source: job.source && redactSourceOptions(job.source),
+    ...(job.from && {
+      from: {
+        provider: job.from.provider,
+        target: job.from.target,
+        prefix: job.from.prefix,
+        profile: job.from.profile,
+        native: job.from.native,
+      },
+    }),
+    createdBy: job.createdBy,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    counts,
+    ...(bytes && { bytes }),
+    items: job.items.map((item) => (item.source ? { ...item, source: redactSourceOptions(item.source) } : item)),
+  };
+};
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { urls, items, concurrency, onConflict, objectOptions, retry, source, profile, keyTemplate, prefix, config } =
+      jobSchema.parse(req.body);
+
+    // Keys are fixed at submission so they match the preview, even if the job resumes later
+    const keyOptions = keyOptionsFor(profile, { keyTemplate, prefix });
+    const now = new Date();
+    const entries = items ?? (urls ?? []).map((url) => ({ url }));
+    const sources = entries.map((entry) => ({ ...entry, key: renderKey(entry, keyOptions, now) }));
+
+    const job = await jobQueue.submit(
+      sources,
+      { config, profile },
+      { concurrency, onConflict, objectOptions, retry, source, createdBy: callerOf(req) }
+    );
+
+    return res.status(202).json({ jobId: job.id, job: toJobView(job) });
+  } catch (error) {
+    logger.error('Error submitting transfer job', { error });
+    return sendError(res, error, 'JOB_SUBMIT_ERROR', 'Failed to submit job');
+  }
+});
+
+/**
+ * Lists the source prefix and either returns the plan (`dryRun`) or queues a
+ * job that copies each object. Sources too large for one job are refused;
+ * the dry run shows the first COPY_MAX_OBJECTS and reports `truncated`.
+ */
+router.post('/copy', async (req: Request, res: Response) => {
+  try {
+    const { from, prefix, concurrency, onConflict, retry, dryRun, profile, config } = copyJobSchema.parse(req.body);
+
+    const source = resolveCopySource(from);
+    const sourcePrefix = prefixFor(from.profile, from.prefix);
+    const destinationPrefix = prefixFor(profile, prefix);
+    const plan = await planCopy(source, config, { sourcePrefix, prefix: destinationPrefix });
+
+    if (dryRun) {
+      return res.json({
+        dryRun: true,
+        from: { provider: source.provider, target: describeTarget(source), prefix: sourcePrefix },
+        to: { provider: config.provider, target: describeTarget(config), prefix: destinationPrefix },
+        native: plan.native,
+        count: plan.objects.length,
+        totalBytes: plan.totalBytes,
+        truncated: plan.truncated,
+        objects: plan.objects,
+      });
+    }
+
+    if (plan.truncated) {
+      throw new AppError('COPY_TOO_LARGE', `More than ${COPY_MAX_OBJECTS} objects under the source prefix; copy a narrower prefix`);
+    }
+    if (plan.objects.length === 0) {
+      throw new AppError('COPY_EMPTY', `No objects under "${sourcePrefix}" in ${describeTarget(source)}`);
+    }
+
+    const job = await jobQueue.submitCopy(
+      plan.objects,
+      { config: source, profile: from.profile, prefix: sourcePrefix, native: plan.native },
+      { config, profile },
+      { concurrency, onConflict, retry, createdBy: callerOf(req) }
+    );
+
+    return res.status(202).json({ jobId: job.id, job: toJobView(job) });
+  } catch (error) {
+    logger.error('Error submitting copy job', { error });
+    return sendError(res, error, 'COPY_JOB_ERROR', 'Failed to submit copy job');
+  }
+});
+
+router.get('/:id', (req: Request, res: Response) => {
+  const job = findJob(req);
+
+  if (!job) {
+    return res.status(404).json({
+      error: {
+        code: 'JOB_NOT_FOUND',
+        message: `Job ${req.params.id} not found`,
+        timestamp: new Date().toISOString(),
+      }
+    });
+  }
+
+  return res.json(toJobView(job));
+});
+
+// Per-item results as a downloadable CSV or JSON file
+router.get('/:id/report', (req: Request, res: Response) => {
+  const parsed = jobReportSchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: {
+        code: 'JOB_REPORT_ERROR',
+        message: 'format must be json or csv',
+        timestamp: new Date().toISOString(),
+      }
+    });
+  }
+
+  const job = findJob(req);
+  if (!job) {
+    return res.status(404).json({
+      error: {
+        code: 'JOB_NOT_FOUND',
+        message: `Job ${req.params.id} not found`,
+        timestamp: new Date().toISOString(),
+      }
+    });
+  }
+
+  const { format } = parsed.data;
+  const rows = jobReport(job);
+  res.attachment(`job-${job.id}-report.${format}`);
+
+  if (format === 'csv') {
+    return res.type('text/csv').send(toCsv(rows));
+  }
+  return res.json({
+    jobId: job.id,
+    status: job.status,
+    createdAt: job.createdAt,
+    generatedAt: new Date().toISOString(),
+    items: rows,
+  });
+});
+
+router.post('/:id/retry', async (req: Request, res: Response) => {
+  try {
+    const { itemIds } = jobRetrySchema.parse(req.body ?? {});
+    const job = findJob(req) && await jobQueue.retry(req.params.id ?? '', itemIds, callerOf(req));
+
+    if (!job) {
+      return res.status(404).json({
+        error: {
+          code: 'JOB_NOT_FOUND',
+          message: `Job ${req.params.id} not found`,
+          timestamp: new Date().toISOString(),
+        }
+      });
+    }
+
+    return res.status(202).json(toJobView(job));
+  } catch (error) {
+    logger.error('Error retrying transfer job', { error, jobId: req.params.id });
+    return sendError(res, error, 'JOB_RETRY_ERROR', 'Failed to retry job');
+  }
+});
+
+export const jobRoutes = router;
@@ -0,0 +1,37 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { keyOptionsSchema, sourceEntrySchema, sourceUrlSchema } from '../storage/schemas.js';
+import { keyOptionsFor } from '../storage/profiles.js';
+import { sendError } from '../utils/errors.js';
+import { renderKey } from '../utils/keyTemplate.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+// Renders object keys without uploading; used for previews and by browser uploads
+const keysSchema = z.object({
+  sources: z.array(z.object({
+    url: sourceUrlSchema,
+    fileName: z.string().min(1).optional(),
+    key: sourceEntrySchema.shape.key,
+  })).min(1).max(1000),
+  profile: z.string().optional(),
+}).merge(keyOptionsSchema);
+
+router.post('/', (req: Request, res: Response) => {
+  try {
+    const { sources, profile, keyTemplate, prefix } = keysSchema.parse(req.body);
+
+    const keyOptions = keyOptionsFor(profile, { keyTemplate, prefix });
+    const now = new Date();
+
+    return res.json({
+      keys: sources.map((source) => renderKey(source, keyOptions, now)),
+    });
+  } catch (error) {
+    logger.error('Error rendering object keys', { error });
+    return sendError(res, error, 'KEY_TEMPLATE_ERROR', 'Failed to render object keys');
+  }
+});
+
+export const keyRoutes = router;
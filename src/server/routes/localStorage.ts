@@ -0,0 +1,138 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { openLocalObject, writeLocalObject, writeLocalPart } from '../providers/local.js';
+import { verifyLocalSignature } from '../providers/localSigning.js';
+import type { LocalUrlTarget } from '../providers/localSigning.js';
+import { objectOptionsSchema } from '../storage/schemas.js';
+import { AppError, sendError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Serves the signed URLs issued by the local provider, standing in for the
+ * storage service's own endpoint. Mounted ahead of the body parsers so upload
+ * bodies stream straight to disk.
+ */
+const router = Router();
+
+const signedQuerySchema = z.object({
+  expires: z.coerce.number().int(),
+  signature: z.string().regex(/^[0-9a-f]{64}$/),
+  uploadId: z.string().optional(),
+  partNumber: z.coerce.number().int().min(1).max(10000).optional(),
+  contentDisposition: z.string().optional(),
+  objectOptions: z.string().optional(),
+  contentType: z.string().optional(),
+  ifNoneMatch: z.literal('*').optional(),
+});
+
+const mediaType = (contentType: string | undefined): string =>
+  (contentType ?? '').split(';')[0]?.trim().toLowerCase() ?? '';
+
+// The headers a single-object URL was signed for must be sent as signed, as S3 checks signed headers
+const headerMismatch = (req: Request, target: LocalUrlTarget): string | undefined => {
+  if (target.uploadId) return undefined;
+  if (mediaType(req.get('Content-Type')) !== mediaType(target.contentType)) {
+    return `Content-Type must be ${target.contentType ?? 'omitted'}, as signed`;
+  }
+  if ((req.get('If-None-Match') === '*') !== Boolean(target.onlyIfAbsent)) {
+    return target.onlyIfAbsent ? 'If-None-Match: * must be sent, as signed' : 'If-None-Match was not signed';
+  }
+  return undefined;
+};
+
+// Objects are served from the app's own origin, so nothing in them may run as the app;
+// an inline disposition keeps its file name but is always downloaded
+const downloadHeaders = (disposition: string | undefined) => ({
+  'Content-Disposition': `attachment${disposition?.includes(';') ? disposition.slice(disposition.indexOf(';')) : ''}`,
+  'X-Content-Type-Options': 'nosniff',
+  'Content-Security-Policy': "sandbox; default-src 'none'",
+});
+
+// Parses the request into the target it must be signed for, or undefined when the signature does not match
+const authorize = (req: Request, method: LocalUrlTarget['method']): LocalUrlTarget | undefined => {
+  const query = signedQuerySchema.safeParse(req.query);
+  if (!query.success) return undefined;
+
+  const target: LocalUrlTarget = {
+    method,
+    bucket: req.params.bucket ?? '',
+    key: req.params[0] ?? '',
+    uploadId: query.data.uploadId,
+    partNumber: query.data.partNumber,
+    contentDisposition: query.data.contentDisposition,
+    objectOptions: query.data.objectOptions,
+    contentType: query.data.contentType,
+    onlyIfAbsent: query.data.ifNoneMatch === '*',
+  };
+  return verifyLocalSignature(target, query.data.expires, query.data.signature) ? target : undefined;
+};
+
+router.put('/:bucket/*', async (req: Request, res: Response) => {
+  const target = authorize(req, 'PUT');
+  if (!target) {
+    return sendError(res, undefined, 'SIGNATURE_INVALID', 'The signed URL is invalid or has expired', 403);
+  }
+  const mismatch = headerMismatch(req, target);
+  if (mismatch) {
+    return sendError(res, undefined, 'SIGNATURE_MISMATCH', mismatch, 403);
+  }
+
+  try {
+    const etag = target.uploadId && target.partNumber
+      ? await writeLocalPart(target.uploadId, target.partNumber, req)
+      : (await writeLocalObject(
+          target.bucket,
+          target.key,
+          req,
+          target.contentType || 'application/octet-stream',
+          {
+            // Conditional create, as S3 and Azure honour it
+            onlyIfAbsent: Boolean(target.onlyIfAbsent),
+            // Signed by this server, so parsing cannot fail short of a bug
+            ...(target.objectOptions && { objectOptions: objectOptionsSchema.parse(JSON.parse(target.objectOptions)) }),
+          }
+        )).etag;
+
+    // Multipart clients read part ETags from the response, as with S3
+    res.set('ETag', etag);
+    res.set('Access-Control-Expose-Headers', 'ETag');
+    return res.status(200).end();
+  } catch (error) {
+    logger.error('Error writing local object', { error, bucket: target.bucket, key: target.key });
+    // File system errors name paths on this machine, so only application errors are passed through
+    return sendError(res, error instanceof AppError ? error : undefined, 'LOCAL_STORAGE_ERROR', 'Failed to write object', 500);
+  }
+});
+
+router.get('/:bucket/*', async (req: Request, res: Response) => {
+  const target = authorize(req, 'GET');
+  if (!target) {
+    return sendError(res, undefined, 'SIGNATURE_INVALID', 'The signed URL is invalid or has expired', 403);
+  }
+
+  try {
+    const object = await openLocalObject(target.bucket, target.key);
+    if (!object) {
+      return sendError(res, undefined, 'OBJECT_NOT_FOUND', `Object ${target.key} not found`, 404);
+    }
+
+    const { cacheControl, contentDisposition, metadata = {} } = object.objectOptions;
+    res.set({
+      'Content-Type': object.info.contentType,
+      'Content-Length': String(object.info.size),
+      ...(object.info.etag && { ETag: object.info.etag }),
+      ...(object.info.lastModified && { 'Last-Modified': new Date(object.info.lastModified).toUTCString() }),
+      ...(cacheControl && { 'Cache-Control': cacheControl }),
+      // A disposition in the signed URL overrides the stored one, as response-content-disposition does
+      ...downloadHeaders(target.contentDisposition ?? contentDisposition),
+      ...Object.fromEntries(Object.entries(metadata).map(([name, value]) => [`x-meta-${name}`, value])),
+    });
+    object.body.on('error', (error) => res.destroy(error));
+    return object.body.pipe(res);
+  } catch (error) {
+    logger.error('Error reading local object', { error, bucket: target.bucket, key: target.key });
+    return sendError(res, error instanceof AppError ? error : undefined, 'LOCAL_STORAGE_ERROR', 'Failed to read object', 500);
+  }
+});
+
+export const localStorageRoutes = router;
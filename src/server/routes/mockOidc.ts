@@ -0,0 +1,91 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { issueMockCode, mockDiscovery, mockIdToken, mockJwks, mockUser, redeemMockCode } from '../auth/mockIssuer.js';
+import { AppError } from '../utils/errors.js';
+
+// The endpoints of the development OpenID provider; errors use the OAuth error format
+const router = Router();
+
+const authorizeSchema = z.object({
+  response_type: z.literal('code'),
+  client_id: z.string().min(1),
+  redirect_uri: z.string().url(),
+  state: z.string().optional(),
+  nonce: z.string().optional(),
+  code_challenge: z.string().optional(),
+  code_challenge_method: z.literal('S256').optional(),
+  login_hint: z.string().optional(),
+});
+
+const tokenSchema = z.object({
+  grant_type: z.literal('authorization_code'),
+  code: z.string().min(1),
+  redirect_uri: z.string().min(1),
+  client_id: z.string().optional(),
+  code_verifier: z.string().optional(),
+});
+
+// Client ID from HTTP Basic or the form; the mock accepts any secret
+const clientIdFor = (req: Request, fromBody: string | undefined): string | undefined => {
+  const authorization = req.get('Authorization');
+  if (authorization?.startsWith('Basic ')) {
+    const [clientId] = Buffer.from(authorization.slice('Basic '.length), 'base64').toString('utf8').split(':');
+    return clientId === undefined ? undefined : decodeURIComponent(clientId);
+  }
+  return fromBody;
+};
+
+router.get('/.well-known/openid-configuration', (_req: Request, res: Response) => {
+  res.json(mockDiscovery());
+});
+
+router.get('/jwks', (_req: Request, res: Response) => {
+  res.json(mockJwks());
+});
+
+// Signs the user in straight away and sends the browser back with a code
+router.get('/authorize', (req: Request, res: Response) => {
+  const parsed = authorizeSchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_request', error_description: parsed.error.issues[0]?.message });
+  }
+
+  const { client_id, redirect_uri, state, nonce, code_challenge, login_hint } = parsed.data;
+  const code = issueMockCode({
+    clientId: client_id,
+    redirectUri: redirect_uri,
+    email: mockUser(login_hint),
+    nonce,
+    codeChallenge: code_challenge,
+  });
+
+  const target = new URL(redirect_uri);
+  target.searchParams.set('code', code);
+  if (state) target.searchParams.set('state', state);
+  return res.redirect(target.toString());
+});
+
+router.post('/token', (req: Request, res: Response) => {
+  try {
+    const { code, redirect_uri, client_id, code_verifier } = tokenSchema.parse(req.body);
+    const clientId = clientIdFor(req, client_id);
+    if (!clientId) {
+      return res.status(401).json({ error: 'invalid_client', error_description: 'No client ID was sent' });
+    }
+
+    const grant = redeemMockCode({ code, clientId, redirectUri: redirect_uri, codeVerifier: code_verifier });
+    return res.json({
+      access_token: `mock-${code}`,
+      token_type: 'Bearer',
+      expires_in: 3600,
+      id_token: mockIdToken(grant),
+    });
+  } catch (error) {
+    return res.status(400).json({
+      error: error instanceof AppError ? error.code : 'invalid_request',
+      error_description: error instanceof Error ? error.message : 'Invalid token request',
+    });
+  }
+});
+
+export const mockOidcRoutes = router;
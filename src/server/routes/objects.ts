@@ -0,0 +1,126 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { cloudConfigSchema } from '../storage/schemas.js';
+import { searchObjects } from '../storage/browse.js';
+import { assertInFolder, profileFolder } from '../storage/profiles.js';
+import { getProvider } from '../providers/registry.js';
+import { AppError, sendError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+const objectKeySchema = z.string().min(1).max(1024);
+
+// Browsing the destination; `search` scans below `prefix` instead of listing one level
+const listSchema = z.object({
+  prefix: z.string().max(1024).default(''),
+  delimiter: z.string().min(1).max(1).default('/'),
+  search: z.string().trim().min(1).max(256).optional(),
+  pageToken: z.string().max(4096).optional(),
+  maxResults: z.number().int().min(1).max(1000).default(100),
+  profile: z.string().optional(),
+  config: cloudConfigSchema,
+});
+
+const headSchema = z.object({
+  key: objectKeySchema,
+  profile: z.string().optional(),
+  config: cloudConfigSchema,
+});
+
+const deleteSchema = z.object({
+  keys: z.array(objectKeySchema).min(1).max(100),
+  profile: z.string().optional(),
+  config: cloudConfigSchema,
+});
+
+const renameSchema = z.object({
+  key: objectKeySchema,
+  newKey: objectKeySchema,
+  overwrite: z.boolean().default(false),
+  profile: z.string().optional(),
+  config: cloudConfigSchema,
+}).refine((request) => request.key !== request.newKey, { message: 'The new key must differ from the current one', path: ['newKey'] });
+
+router.post('/list', async (req: Request, res: Response) => {
+  try {
+    const { prefix: requested, delimiter, search, pageToken, maxResults, profile, config } = listSchema.parse(req.body);
+    // The top level of a profile's listing is its folder
+    const folder = profileFolder(profile);
+    const prefix = requested || folder;
+    assertInFolder(folder, prefix);
+
+    if (search) {
+      return res.json(await searchObjects(config, { prefix, term: search, pageToken, maxResults }));
+    }
+    return res.json(await getProvider(config).list(config, { prefix, delimiter, pageToken, maxResults }));
+  } catch (error) {
+    logger.error('Error listing objects', { error });
+    return sendError(res, error, 'LIST_ERROR', 'Failed to list objects');
+  }
+});
+
+// Listings leave out the content type on some services (S3); previews look it up here
+router.post('/head', async (req: Request, res: Response) => {
+  try {
+    const { key, profile, config } = headSchema.parse(req.body);
+    assertInFolder(profileFolder(profile), key);
+
+    const info = await getProvider(config).head(config, key);
+    if (!info) {
+      throw new AppError('OBJECT_NOT_FOUND', `Object "${key}" not found`, 404);
+    }
+    return res.json(info);
+  } catch (error) {
+    logger.error('Error reading object properties', { error });
+    return sendError(res, error, 'HEAD_ERROR', 'Failed to read the object');
+  }
+});
+
+// Each key is deleted on its own; failures are listed rather than failing the request
+router.post('/delete', async (req: Request, res: Response) => {
+  try {
+    const { keys, profile, config } = deleteSchema.parse(req.body);
+    const folder = profileFolder(profile);
+    keys.forEach((key) => assertInFolder(folder, key));
+    const provider = getProvider(config);
+
+    const results = await Promise.allSettled(keys.map((key) => provider.delete(config, key)));
+    const deleted = keys.filter((_key, index) => results[index]?.status === 'fulfilled');
+    const errors = results.flatMap((result, index) => result.status === 'rejected'
+      ? [{ key: keys[index], message: result.reason instanceof Error ? result.reason.message : 'Delete failed' }]
+      : []);
+
+    logger.info('Objects deleted', { provider: config.provider, deleted: deleted.length, failed: errors.length });
+    return res.json({ deleted, errors });
+  } catch (error) {
+    logger.error('Error deleting objects', { error });
+    return sendError(res, error, 'DELETE_ERROR', 'Failed to delete objects');
+  }
+});
+
+/**
+ * Storage services have no rename, so the object is copied on the service and
+ * the original deleted once the copy exists. Without `overwrite` an existing
+ * object at the new key fails the rename with OBJECT_EXISTS.
+ */
+router.post('/rename', async (req: Request, res: Response) => {
+  try {
+    const { key, newKey, overwrite, profile, config } = renameSchema.parse(req.body);
+    const folder = profileFolder(profile);
+    assertInFolder(folder, key);
+    assertInFolder(folder, newKey);
+    const provider = getProvider(config);
+
+    await provider.copy(config, key, newKey, { onlyIfAbsent: !overwrite });
+    await provider.delete(config, key);
+
+    logger.info('Object renamed', { provider: config.provider, key, newKey });
+    return res.json((await provider.head(config, newKey)) ?? { key: newKey });
+  } catch (error) {
+    logger.error('Error renaming object', { error });
+    return sendError(res, error, 'RENAME_ERROR', 'Failed to rename the object');
+  }
+});
+
+export const objectRoutes = router;
@@ -0,0 +1,25 @@
+import { Router, Request, Response } from 'express';
+import { describeTarget, inlineCredentialsAllowed, listProfiles } from '../storage/profiles.js';
+import { listProviders } from '../providers/registry.js';
+
+const router = Router();
+
+// Lists profile names and targets only; credentials never leave the server
+router.get('/', (_req: Request, res: Response) => {
+  res.json({
+    inlineCredentialsAllowed: inlineCredentialsAllowed(),
+    providers: listProviders(),
+    profiles: listProfiles().map((profile) => ({
+      name: profile.name,
+      description: profile.description,
+      provider: profile.config.provider,
+      target: describeTarget(profile.config),
+      keyTemplate: profile.keyTemplate,
+      prefix: profile.prefix,
+      allowedContentTypes: profile.allowedContentTypes,
+      objectOptions: profile.objectOptions,
+    })),
+  });
+});
+
+export const profileRoutes = router;
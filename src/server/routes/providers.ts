@@ -0,0 +1,81 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { cloudConfigSchema, keyOptionsSchema } from '../storage/schemas.js';
+import { describeTarget, prefixFor } from '../storage/profiles.js';
+import { testConnection } from '../storage/connectionTest.js';
+import { applyCors, planCors } from '../storage/cors.js';
+import { requireAuth } from '../middleware/authenticate.js';
+import { sendError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+// The probe object is written under `prefix`, for credentials limited to part of the bucket
+const connectionTestSchema = z.object({
+  profile: z.string().optional(),
+  prefix: keyOptionsSchema.shape.prefix,
+  config: cloudConfigSchema,
+});
+
+const corsSchema = z.object({
+  profile: z.string().optional(),
+  config: cloudConfigSchema,
+});
+
+// `confirm` and the fingerprint of the reviewed plan guard against writing rules nobody looked at
+const corsApplySchema = corsSchema.extend({
+  confirm: z.literal(true, { errorMap: () => ({ message: 'Applying CORS rules requires confirm: true' }) }),
+  fingerprint: z.string().min(1),
+});
+
+// Checks a storage target before it is saved; the checklist reports failures, so the response is 200 either way
+router.post('/test', async (req: Request, res: Response) => {
+  try {
+    const { profile, prefix, config } = connectionTestSchema.parse(req.body);
+
+    const result = await testConnection(config, { prefix: prefixFor(profile, prefix) });
+    logger.info('Connection test finished', {
+      provider: result.provider,
+      target: result.target,
+      checks: Object.fromEntries(result.checks.map((check) => [check.id, check.status])),
+    });
+    return res.json(result);
+  } catch (error) {
+    logger.error('Error testing storage connection', { error });
+    return sendError(res, error, 'CONNECTION_TEST_ERROR', 'Failed to test the storage connection');
+  }
+});
+
+// Reads the bucket's CORS rules and what CORS_ORIGIN needs; nothing is written
+router.post('/cors', async (req: Request, res: Response) => {
+  try {
+    const { config } = corsSchema.parse(req.body);
+    return res.json(await planCors(config));
+  } catch (error) {
+    logger.error('Error reading CORS configuration', { error });
+    return sendError(res, error, 'CORS_CONFIG_ERROR', 'Failed to read the CORS configuration');
+  }
+});
+
+// Rewrites bucket-wide settings, so it takes more than the upload scope this router is mounted with
+router.post('/cors/apply', requireAuth('admin'), async (req: Request, res: Response) => {
+  try {
+    const { config, fingerprint } = corsApplySchema.parse(req.body);
+
+    const result = await applyCors(config, fingerprint);
+    if (result.applied) {
+      logger.info('CORS rule applied', {
+        provider: config.provider,
+        target: describeTarget(config),
+        origin: result.origin,
+        rules: result.rules.length,
+      });
+    }
+    return res.json(result);
+  } catch (error) {
+    logger.error('Error applying CORS configuration', { error });
+    return sendError(res, error, 'CORS_CONFIG_ERROR', 'Failed to apply the CORS configuration');
+  }
+});
+
+export const providerRoutes = router;
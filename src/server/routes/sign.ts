@@ -0,0 +1,248 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { cloudConfigSchema, conflictPolicySchema, contentTypeSchema, objectOptionsSchema } from '../storage/schemas.js';
+import { allowedContentTypesFor, assertInFolder, describeTarget, objectOptionsFor, profileFolder } from '../storage/profiles.js';
+import { resolveConflict } from '../storage/conflicts.js';
+import { multipartToken, verifyMultipartToken } from '../storage/uploadTokens.js';
+import { getProvider } from '../providers/registry.js';
+import { assertContentTypeAllowed, inspectContent, SNIFF_BYTES } from '../utils/contentType.js';
+import type { ContentInspection } from '../utils/contentType.js';
+import { AppError, sendError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+const SIGNED_URL_TTL_SECONDS = 3600;
+// SigV4 presigned URLs, the strictest of the providers, are capped at seven days
+const MAX_DOWNLOAD_TTL_SECONDS = 7 * 24 * 3600;
+
+// Validation schemas for signing requests; `config.provider` selects the implementation
+const signSchema = z.object({
+  fileName: z.string().min(1),
+  // Browsers report an empty type for files they do not recognise
+  fileType: contentTypeSchema.or(z.literal('')),
+  // Base64 of the file's first bytes, used to sniff the real content type
+  head: z.string().max(Math.ceil(SNIFF_BYTES / 3) * 4).regex(/^[A-Za-z0-9+/]*={0,2}$/).optional(),
+  profile: z.string().optional(),
+  onConflict: conflictPolicySchema.default('overwrite'),
+  // Merged over the profile's defaults
+  objectOptions: objectOptionsSchema.optional(),
+  config: cloudConfigSchema,
+});
+
+const signDownloadSchema = z.object({
+  fileName: z.string().min(1),
+  expiresIn: z.number().int().min(60).max(MAX_DOWNLOAD_TTL_SECONDS).default(SIGNED_URL_TTL_SECONDS),
+  contentDisposition: z.string().max(512).regex(/^[^\r\n]*$/).optional(),
+  profile: z.string().optional(),
+  config: cloudConfigSchema,
+});
+
+const multipartPartsSchema = z.object({
+  fileName: z.string().min(1),
+  uploadId: z.string().min(1),
+  partNumbers: z.array(z.number().int().min(1).max(10000)).min(1).max(100),
+  profile: z.string().optional(),
+  objectOptions: objectOptionsSchema.optional(),
+  config: cloudConfigSchema,
+});
+
+const multipartCompleteSchema = z.object({
+  fileName: z.string().min(1),
+  // The content type returned when the upload started, and the token that binds it
+  fileType: contentTypeSchema,
+  uploadToken: z.string().regex(/^[0-9a-f]{64}$/),
+  uploadId: z.string().min(1),
+  parts: z.array(z.object({
+    partNumber: z.number().int().min(1).max(10000),
+    etag: z.string().min(1).optional(),
+  })).min(1),
+  // Must match the policy and options the upload was started with
+  onConflict: conflictPolicySchema.default('overwrite'),
+  profile: z.string().optional(),
+  objectOptions: objectOptionsSchema.optional(),
+  config: cloudConfigSchema,
+});
+
+const multipartAbortSchema = z.object({
+  fileName: z.string().min(1),
+  uploadId: z.string().min(1),
+  config: cloudConfigSchema,
+});
+
+// Settles the content type (and with it the key's extension) and applies the profile allowlist.
+// `fileName` is the key rendered by /api/keys, so through a profile it must lie below its folder
+const inspectUpload = ({ fileName, fileType, head, profile }: z.infer<typeof signSchema>): ContentInspection => {
+  const content = inspectContent(fileName, fileType, head ? Buffer.from(head, 'base64') : undefined);
+  assertInFolder(profileFolder(profile), content.key);
+  assertContentTypeAllowed(content.contentType, allowedContentTypesFor(profile));
+  return content;
+};
+
+/**
+ * Signs an upload after applying the conflict policy. The response carries the
+ * key to upload to (renamed if needed) and the `conflict` action; a skipped
+ * upload has no signed URL. `contentType` is the type the upload must be sent
+ * with, which may differ from `fileType` after sniffing, and `headers` lists
+ * every header the PUT must carry, including those for `objectOptions`.
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const request = signSchema.parse(req.body);
+    const { onConflict, profile, config } = request;
+    const content = inspectUpload(request);
+
+    const target = await resolveConflict(config, content.key, onConflict);
+    if (target.action === 'skipped') {
+      return res.json({ key: target.key, conflict: target.action });
+    }
+
+    const signed = await getProvider(config).signUpload(config, {
+      key: target.key,
+      contentType: content.contentType,
+      expiresIn: SIGNED_URL_TTL_SECONDS,
+      onlyIfAbsent: target.onlyIfAbsent,
+      objectOptions: objectOptionsFor(profile, request.objectOptions),
+    });
+
+    logger.info('Upload URL signed', {
+      fileName: target.key,
+      provider: config.provider,
+      target: describeTarget(config),
+      conflict: target.action,
+      contentType: content.contentType,
+    });
+
+    return res.json({ ...signed, key: target.key, conflict: target.action, contentType: content.contentType });
+  } catch (error) {
+    logger.error('Error signing upload URL', { error });
+    return sendError(res, error, 'SIGN_ERROR', 'Failed to generate signed URL');
+  }
+});
+
+// Shareable read link for an uploaded object; through a profile, only for objects in its folder
+router.post('/download', async (req: Request, res: Response) => {
+  try {
+    const { fileName, expiresIn, contentDisposition, profile, config } = signDownloadSchema.parse(req.body);
+    assertInFolder(profileFolder(profile), fileName);
+
+    const signed = await getProvider(config).signDownload(config, {
+      key: fileName,
+      expiresIn,
+      contentDisposition,
+    });
+
+    logger.info('Download URL signed', { fileName, provider: config.provider, expiresIn });
+
+    return res.json(signed);
+  } catch (error) {
+    logger.error('Error signing download URL', { error });
+    return sendError(res, error, 'SIGN_ERROR', 'Failed to generate download URL');
+  }
+});
+
+// Start a multipart upload for objects too large for a single PUT
+router.post('/multipart', async (req: Request, res: Response) => {
+  try {
+    const request = signSchema.parse(req.body);
+    const { onConflict, profile, config } = request;
+    const content = inspectUpload(request);
+
+    const target = await resolveConflict(config, content.key, onConflict);
+    if (target.action === 'skipped') {
+      return res.json({ key: target.key, conflict: target.action });
+    }
+
+    const upload = await getProvider(config).createMultipart(config, {
+      key: target.key,
+      contentType: content.contentType,
+      origin: req.get('Origin'),
+      onlyIfAbsent: target.onlyIfAbsent,
+      objectOptions: objectOptionsFor(profile, request.objectOptions),
+    });
+
+    logger.info('Multipart upload created', { fileName: target.key, provider: config.provider, strategy: upload.strategy });
+
+    return res.json({
+      ...upload,
+      key: target.key,
+      conflict: target.action,
+      contentType: content.contentType,
+      uploadToken: multipartToken({ uploadId: upload.uploadId, key: target.key, contentType: content.contentType }),
+    });
+  } catch (error) {
+    logger.error('Error creating multipart upload', { error });
+    return sendError(res, error, 'MULTIPART_ERROR', 'Failed to create multipart upload');
+  }
+});
+
+// Sign part URLs; clients request them in batches as the upload progresses
+router.post('/multipart/parts', async (req: Request, res: Response) => {
+  try {
+    const { fileName, uploadId, partNumbers, profile, objectOptions, config } = multipartPartsSchema.parse(req.body);
+    assertInFolder(profileFolder(profile), fileName);
+
+    const parts = await getProvider(config).signParts(config, {
+      key: fileName,
+      uploadId,
+      partNumbers,
+      objectOptions: objectOptionsFor(profile, objectOptions),
+    });
+
+    return res.json({ parts });
+  } catch (error) {
+    logger.error('Error signing upload parts', { error });
+    return sendError(res, error, 'MULTIPART_ERROR', 'Failed to sign upload parts');
+  }
+});
+
+router.post('/multipart/complete', async (req: Request, res: Response) => {
+  try {
+    const { fileName, fileType, uploadToken, uploadId, parts, onConflict, profile, objectOptions, config } =
+      multipartCompleteSchema.parse(req.body);
+
+    if (!verifyMultipartToken({ uploadId, key: fileName, contentType: fileType }, uploadToken)) {
+      throw new AppError('UPLOAD_TOKEN_INVALID', 'The upload was started with a different key or content type', 403);
+    }
+    assertContentTypeAllowed(fileType, allowedContentTypesFor(profile));
+
+    await getProvider(config).completeMultipart(config, {
+      key: fileName,
+      uploadId,
+      contentType: fileType,
+      parts,
+      onlyIfAbsent: onConflict !== 'overwrite',
+      objectOptions: objectOptionsFor(profile, objectOptions),
+    });
+
+    logger.info('Multipart upload completed', { fileName, provider: config.provider, parts: parts.length });
+
+    return res.json({ key: fileName });
+  } catch (error) {
+    logger.error('Error completing multipart upload', { error });
+    return sendError(res, error, 'MULTIPART_ERROR', 'Failed to complete multipart upload');
+  }
+});
+
+router.post('/multipart/abort', async (req: Request, res: Response) => {
+  try {
+    const { fileName, uploadId, config } = multipartAbortSchema.parse(req.body);
+
+    const { discarded } = await getProvider(config).abortMultipart(config, { key: fileName, uploadId });
+
+    if (!discarded) {
+      // Nothing was deleted; the service discards the stored parts when they expire
+      logger.info('Multipart upload left to expire', { fileName, provider: config.provider });
+      return res.status(202).json({ discarded });
+    }
+
+    logger.info('Multipart upload aborted', { fileName, provider: config.provider });
+
+    return res.status(204).end();
+  } catch (error) {
+    logger.error('Error aborting multipart upload', { error });
+    return sendError(res, error, 'MULTIPART_ERROR', 'Failed to abort multipart upload');
+  }
+});
+
+export const signRoutes = router;
@@ -0,0 +1,102 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  cloudConfigSchema,
+  conflictPolicySchema,
+  keyOptionsSchema,
+  objectOptionsSchema,
+  retryPolicySchema,
+  sourceEntrySchema,
+  sourceOptionsSchema,
+} from '../storage/schemas.js';
+import { allowedContentTypesFor, keyOptionsFor, objectOptionsFor } from '../storage/profiles.js';
+import { withMetadata } from '../storage/objectOptions.js';
+import { transferUrl } from '../storage/transfer.js';
+import { renderKey } from '../utils/keyTemplate.js';
+import { redactUrl } from '../utils/redact.js';
+import { withRetry } from '../utils/retry.js';
+import { entrySourceOptions, mergeSourceOptions } from '../utils/sourceOptions.js';
+import { sendError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+// Validation schema for server-side transfer request; the source fields match a manifest row,
+// and `source` holds the batch's source options the row's override
+const transferSchema = sourceEntrySchema.extend({
+  source: sourceOptionsSchema.optional(),
+  fileName: z.string().min(1).optional(),
+  profile: z.string().optional(),
+  onConflict: conflictPolicySchema.default('overwrite'),
+  objectOptions: objectOptionsSchema.optional(),
+  retry: retryPolicySchema.default({}),
+  config: cloudConfigSchema,
+}).merge(keyOptionsSchema);
+
+/**
+ * Transient failures of the source fetch or the upload are retried with the
+ * request's `retry` policy; `attempts` on the result or error body counts
+ * every try.
+ */
+router.post('/', async (req: Request, res: Response) => {
+  const start = Date.now();
+  let attempts = 0;
+
+  try {
+    const validatedData = transferSchema.parse(req.body);
+    const { url, key: explicitKey, contentType, metadata, fileName, profile, keyTemplate, prefix } = validatedData;
+    const { onConflict, objectOptions, retry, source, config } = validatedData;
+    const logUrl = redactUrl(url);
+
+    const key = renderKey({ url, fileName, key: explicitKey }, keyOptionsFor(profile, { keyTemplate, prefix }));
+    const result = await withRetry(
+      (attempt) => {
+        attempts = attempt;
+        return transferUrl(config, url, key, {
+          onConflict,
+          allowedContentTypes: allowedContentTypesFor(profile),
+          objectOptions: objectOptionsFor(profile, withMetadata(objectOptions, metadata)),
+          contentType,
+          source: mergeSourceOptions(source, entrySourceOptions(validatedData)),
+        });
+      },
+      retry,
+      (error, attempt, delayMs) => {
+        logger.warn('Retrying server-side transfer', { url: logUrl, attempt, delayMs, error });
+      }
+    );
+
+    if (result.conflict === 'skipped') {
+      logger.info('Server-side transfer skipped; destination exists', { url: logUrl, key });
+      return res.json({ key: result.key, conflict: result.conflict, attempts });
+    }
+
+    logger.info('Server-side transfer completed', {
+      url: logUrl,
+      key: result.key,
+      provider: config.provider,
+      size: result.size,
+      conflict: result.conflict,
+      attempts,
+      sha256: result.checksums.sha256,
+      verifiedWith: result.verifiedWith,
+      duration: `${Date.now() - start}ms`,
+    });
+
+    return res.status(201).json({
+      key: result.key,
+      location: result.location,
+      size: result.size,
+      contentType: result.contentType,
+      conflict: result.conflict,
+      checksums: result.checksums,
+      verifiedWith: result.verifiedWith,
+      attempts,
+    });
+  } catch (error) {
+    logger.error('Error transferring file', { error });
+    return sendError(res, error, 'TRANSFER_ERROR', 'Failed to transfer file', 400, attempts > 0 ? { attempts } : {});
+  }
+});
+
+export const transferRoutes = router;
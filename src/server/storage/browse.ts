@@ -0,0 +1,33 @@
+import { getProvider } from '../providers/registry.js';
+import type { ListResult } from '../providers/types.js';
+import type { CloudConfig } from './schemas.js';
+
+// Keys looked at per search request; the returned token continues the scan
+const SEARCH_SCAN_LIMIT = 5000;
+const SEARCH_PAGE_SIZE = 1000;
+
+/**
+ * Finds keys under `prefix` whose remainder contains `term`, ignoring case.
+ * Storage services only filter by prefix, so the listing is scanned page by
+ * page until `maxResults` matches or the scan limit is reached. The last page
+ * scanned is matched in full, so a result can hold a few more than asked.
+ */
+export const searchObjects = async (
+  config: CloudConfig,
+  { prefix = '', term, pageToken, maxResults }: { prefix?: string | undefined; term: string; pageToken?: string | undefined; maxResults: number }
+): Promise<ListResult & { scanned: number }> => {
+  const provider = getProvider(config);
+  const needle = term.toLowerCase();
+  const result: ListResult & { scanned: number } = { objects: [], prefixes: [], scanned: 0 };
+  let token = pageToken;
+
+  do {
+    const page = await provider.list(config, { prefix, pageToken: token, maxResults: SEARCH_PAGE_SIZE });
+    result.objects.push(...page.objects.filter((object) => object.key.slice(prefix.length).toLowerCase().includes(needle)));
+    result.scanned += page.objects.length;
+    token = page.nextPageToken;
+  } while (token && result.objects.length < maxResults && result.scanned < SEARCH_SCAN_LIMIT);
+
+  if (token) result.nextPageToken = token;
+  return result;
+};
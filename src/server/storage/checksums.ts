@@ -0,0 +1,56 @@
+import { createHash } from 'node:crypto';
+import { CRC32C } from '@google-cloud/storage';
+import { AppError } from '../utils/errors.js';
+
+export type ChecksumAlgorithm = 'md5' | 'sha256' | 'crc32c';
+
+// Hex digests of an uploaded body; services exchange the same values in base64
+export type Checksums = Record<ChecksumAlgorithm, string>;
+
+export interface ChecksumCalculator {
+  update(chunk: Buffer): void;
+  // Only meaningful once the whole body has passed through `update`
+  digest(): Checksums;
+}
+
+// Every digest is computed in the one pass that streams the body to storage
+export const createChecksumCalculator = (): ChecksumCalculator => {
+  const md5 = createHash('md5');
+  const sha256 = createHash('sha256');
+  const crc32c = new CRC32C();
+  let result: Checksums | undefined;
+
+  return {
+    update(chunk) {
+      md5.update(chunk);
+      sha256.update(chunk);
+      crc32c.update(chunk);
+    },
+    digest() {
+      result ??= {
+        md5: md5.digest('hex'),
+        sha256: sha256.digest('hex'),
+        crc32c: crc32c.toBuffer().toString('hex'),
+      };
+      return result;
+    },
+  };
+};
+
+export const checksumBase64 = (checksums: Checksums, algorithm: ChecksumAlgorithm): string =>
+  Buffer.from(checksums[algorithm], 'hex').toString('base64');
+
+/**
+ * Compares the checksum a service reports for the stored object (base64)
+ * with the digest of the bytes that were sent.
+ */
+export const assertChecksum = (algorithm: ChecksumAlgorithm, checksums: Checksums, stored: string): void => {
+  if (checksumBase64(checksums, algorithm) !== stored) {
+    throw new AppError(
+      'CHECKSUM_MISMATCH',
+      `Stored object ${algorithm} does not match the uploaded data`,
+      502,
+      { algorithm, expected: checksums[algorithm], actual: Buffer.from(stored, 'base64').toString('hex') }
+    );
+  }
+};
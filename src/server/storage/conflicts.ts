@@ -0,0 +1,57 @@
+import { getProvider } from '../providers/registry.js';
+import { AppError } from '../utils/errors.js';
+import type { CloudConfig, ConflictPolicy } from './schemas.js';
+
+// What happened to the destination key; reported on each upload and job item
+export type ConflictAction = 'created' | 'overwritten' | 'skipped' | 'renamed';
+
+export interface ConflictResolution {
+  key: string;
+  action: ConflictAction;
+  // Write conditionally so an object created after the lookup is not clobbered
+  onlyIfAbsent: boolean;
+}
+
+const MAX_RENAME_ATTEMPTS = 100;
+
+// "photos/cat.jpg" -> "photos/cat-1.jpg"
+const numberedKey = (key: string, n: number): string => {
+  const dot = key.lastIndexOf('.');
+  return dot > key.lastIndexOf('/') + 1
+    ? `${key.slice(0, dot)}-${n}${key.slice(dot)}`
+    : `${key}-${n}`;
+};
+
+/**
+ * Looks up the destination key and applies the conflict policy. Even with
+ * `overwrite` the lookup runs so the caller can report whether the object
+ * was created or replaced.
+ */
+export const resolveConflict = async (
+  config: CloudConfig,
+  key: string,
+  policy: ConflictPolicy
+): Promise<ConflictResolution> => {
+  const provider = getProvider(config);
+
+  if (!await provider.head(config, key)) {
+    return { key, action: 'created', onlyIfAbsent: policy !== 'overwrite' };
+  }
+
+  switch (policy) {
+    case 'overwrite':
+      return { key, action: 'overwritten', onlyIfAbsent: false };
+    case 'skip':
+      return { key, action: 'skipped', onlyIfAbsent: false };
+    case 'fail':
+      throw new AppError('OBJECT_EXISTS', `Object "${key}" already exists`, 409);
+    case 'rename':
+      for (let n = 1; n <= MAX_RENAME_ATTEMPTS; n++) {
+        const candidate = numberedKey(key, n);
+        if (!await provider.head(config, candidate)) {
+          return { key: candidate, action: 'renamed', onlyIfAbsent: true };
+        }
+      }
+      throw new AppError('OBJECT_EXISTS', `No free name found for "${key}" after ${MAX_RENAME_ATTEMPTS} attempts`, 409);
+  }
+};
@@ -0,0 +1,195 @@
+import { randomUUID } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { getProvider } from '../providers/registry.js';
+import { appOrigin, planCors } from './cors.js';
+import type { CorsGaps } from './cors.js';
+import { describeTarget } from './profiles.js';
+import type { CloudConfig } from './schemas.js';
+
+export type CheckId = 'credentials' | 'bucket' | 'write' | 'cors';
+
+// `warn` does not stop uploads in every mode; `skip` when an earlier failure made the check meaningless or it does not apply
+export type CheckStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface ConnectionCheck {
+  id: CheckId;
+  status: CheckStatus;
+  message: string;
+  details?: unknown;
+}
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  provider: CloudConfig['provider'];
+  target: string;
+  checks: ConnectionCheck[];
+}
+
+const PROBE_BODY = 'Connection test by s3-url-uploader; safe to delete.\n';
+
+// Error codes the services use when the key, secret or token itself is rejected
+const CREDENTIAL_ERRORS = new Set([
+  'InvalidAccessKeyId',
+  'SignatureDoesNotMatch',
+  'ExpiredToken',
+  'InvalidToken',
+  'InvalidClientTokenId',
+  'AuthenticationFailed',
+  'InvalidAuthenticationInfo',
+  'invalid_grant',
+]);
+
+// The request never reached the service
+const NETWORK_ERRORS = new Set(['ENOTFOUND', 'EAI_AGAIN', 'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'CERT_HAS_EXPIRED']);
+
+interface ServiceError {
+  status?: number | undefined;
+  code?: string | undefined;
+  message: string;
+}
+
+// The three SDKs report the HTTP status and error code in different fields
+const describeError = (error: unknown): ServiceError => {
+  const e = (error ?? {}) as {
+    $metadata?: { httpStatusCode?: number };
+    statusCode?: unknown;
+    status?: unknown;
+    code?: unknown;
+    name?: unknown;
+    message?: unknown;
+    response?: { data?: { error?: unknown } };
+  };
+  const status = e.$metadata?.httpStatusCode
+    ?? (typeof e.statusCode === 'number' ? e.statusCode : undefined)
+    ?? (typeof e.status === 'number' ? e.status : undefined)
+    ?? (typeof e.code === 'number' ? e.code : undefined);
+  const code = typeof e.code === 'string' ? e.code
+    : typeof e.response?.data?.error === 'string' ? e.response.data.error
+    : typeof e.name === 'string' && e.name !== 'Error' ? e.name
+    : undefined;
+
+  return {
+    status,
+    code,
+    message: typeof e.message === 'string' && e.message ? e.message : 'Unknown error',
+  };
+};
+
+const serviceDetails = ({ status, code }: ServiceError) => ({
+  ...(status !== undefined && { status }),
+  ...(code && { code }),
+});
+
+const describeGaps = (gaps: CorsGaps): string =>
+  [
+    gaps.methods.length > 0 && `methods ${gaps.methods.join(', ')}`,
+    gaps.allowedHeaders.length > 0 && `request headers ${gaps.allowedHeaders.join(', ')}`,
+    gaps.exposeHeaders.length > 0 && `exposed headers ${gaps.exposeHeaders.join(', ')}`,
+  ].filter(Boolean).join('; ');
+
+/**
+ * Runs the checks a storage target needs before uploads can work: the
+ * credentials are accepted, the bucket exists, an object can be written (a
+ * small probe, deleted again) and the CORS rules admit browser uploads from
+ * `origin`. Failures are reported in the checklist rather than thrown.
+ */
+export const testConnection = async (
+  config: CloudConfig,
+  { prefix, origin = appOrigin() }: { prefix?: string | undefined; origin?: string | undefined } = {}
+): Promise<ConnectionTestResult> => {
+  const provider = getProvider(config);
+  const checks: ConnectionCheck[] = [];
+  const skip = (id: CheckId, message: string) => checks.push({ id, status: 'skip', message });
+
+  // Listing one key exercises the credentials and the bucket in a single request
+  let reachable = true;
+  try {
+    await provider.list(config, { maxResults: 1 });
+    checks.push({ id: 'credentials', status: 'pass', message: 'Credentials accepted' });
+    checks.push({ id: 'bucket', status: 'pass', message: `Found ${describeTarget(config)}` });
+  } catch (error) {
+    const failure = describeError(error);
+    const details = serviceDetails(failure);
+
+    if (failure.status === 401 || CREDENTIAL_ERRORS.has(failure.code ?? '')) {
+      checks.push({ id: 'credentials', status: 'fail', message: `Credentials rejected: ${failure.message}`, details });
+      reachable = false;
+    } else if (NETWORK_ERRORS.has(failure.code ?? '')) {
+      checks.push({ id: 'credentials', status: 'fail', message: `Could not reach the storage service: ${failure.message}`, details });
+      reachable = false;
+    } else if (failure.status === undefined) {
+      // Failed before any response, e.g. an unreadable key file or a token that could not be minted
+      checks.push({ id: 'credentials', status: 'fail', message: `Could not authenticate: ${failure.message}`, details });
+      reachable = false;
+    } else if (failure.status === 403) {
+      // Write-only credentials are common for upload targets, so the probe still decides
+      checks.push({ id: 'credentials', status: 'pass', message: 'Credentials accepted' });
+      checks.push({ id: 'bucket', status: 'warn', message: `Cannot list ${describeTarget(config)}: ${failure.message}`, details });
+    } else {
+      checks.push({ id: 'credentials', status: 'pass', message: 'Credentials accepted' });
+      checks.push({
+        id: 'bucket',
+        status: 'fail',
+        message: failure.status === 404
+          ? `${describeTarget(config)} does not exist`
+          : `Cannot access ${describeTarget(config)}: ${failure.message}`,
+        details,
+      });
+      reachable = false;
+    }
+  }
+
+  if (!reachable) {
+    if (!checks.some((check) => check.id === 'bucket')) skip('bucket', 'Skipped: the credentials could not be verified');
+    skip('write', 'Skipped: the bucket is not accessible');
+    skip('cors', 'Skipped: the bucket is not accessible');
+    return { ok: false, provider: config.provider, target: describeTarget(config), checks };
+  }
+
+  const probeKey = [...(prefix ?? '').split('/').filter(Boolean), `.upload-probe-${randomUUID()}.txt`].join('/');
+  try {
+    await provider.upload(config, probeKey, Readable.from([Buffer.from(PROBE_BODY)]), 'text/plain');
+    try {
+      await provider.delete(config, probeKey);
+      checks.push({ id: 'write', status: 'pass', message: 'Wrote and deleted a probe object' });
+    } catch (error) {
+      checks.push({
+        id: 'write',
+        status: 'warn',
+        message: `Wrote a probe object but could not delete it: ${describeError(error).message}`,
+        details: { key: probeKey },
+      });
+    }
+  } catch (error) {
+    const failure = describeError(error);
+    checks.push({ id: 'write', status: 'fail', message: `Cannot write objects: ${failure.message}`, details: serviceDetails(failure) });
+  }
+
+  if (!provider.getCors) {
+    skip('cors', 'Not needed: browser uploads go through this server');
+  } else {
+    try {
+      const gaps = (await planCors(config, origin)).missing;
+      // Server-side transfers work without CORS, so gaps do not fail the target
+      checks.push(gaps
+        ? { id: 'cors', status: 'warn', message: `Browser uploads from ${origin} will be blocked; missing ${describeGaps(gaps)}`, details: { origin, missing: gaps } }
+        : { id: 'cors', status: 'pass', message: `Browser uploads from ${origin} are allowed` });
+    } catch (error) {
+      // Reading CORS needs bucket or account administration rights that upload credentials often lack
+      const failure = describeError(error);
+      checks.push({
+        id: 'cors',
+        status: 'warn',
+        message: `Could not read the CORS configuration: ${failure.message}`,
+        details: { origin, ...serviceDetails(failure) },
+      });
+    }
+  }
+
+  return {
+    ok: checks.every((check) => check.status !== 'fail'),
+    provider: config.provider,
+    target: describeTarget(config),
+    checks,
+  };
+};
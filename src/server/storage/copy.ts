@@ -0,0 +1,198 @@
+import { Readable, Transform } from 'node:stream';
+import { getProvider } from '../providers/registry.js';
+import { assertContentTypeAllowed } from '../utils/contentType.js';
+import { AppError } from '../utils/errors.js';
+import type { ChecksumAlgorithm, Checksums } from './checksums.js';
+import { resolveConflict } from './conflicts.js';
+import type { ConflictAction } from './conflicts.js';
+import { describeTarget } from './profiles.js';
+import type { CloudConfig, ConflictPolicy } from './schemas.js';
+import type { SkippedTransfer } from './transfer.js';
+import { uploadStream } from './upload.js';
+
+// The most objects one copy job holds; a dry run lists at most this many
+export const COPY_MAX_OBJECTS = 10_000;
+const COPY_LIST_PAGE_SIZE = 1000;
+
+export interface CopyPlanEntry {
+  sourceKey: string;
+  key: string;
+  size: number;
+}
+
+export interface CopyPlan {
+  objects: CopyPlanEntry[];
+  totalBytes: number;
+  // More than COPY_MAX_OBJECTS objects are under the source prefix
+  truncated: boolean;
+  // The storage service copies each object itself instead of this server streaming it
+  native: boolean;
+}
+
+export interface CopyResult {
+  key: string;
+  location: string;
+  size: number;
+  contentType: string;
+  conflict: Exclude<ConflictAction, 'skipped'>;
+  // Only when the bytes passed through this server; native copies never leave the service
+  checksums?: Checksums | undefined;
+  verifiedWith?: ChecksumAlgorithm | undefined;
+}
+
+export type CopyOutcome = CopyResult | SkippedTransfer;
+
+export interface CopyObjectOptions {
+  onConflict?: ConflictPolicy | undefined;
+  native?: boolean | undefined;
+  // Destination profile allowlist checked against the source object's content type
+  allowedContentTypes?: string[] | undefined;
+  // Bytes streamed so far; not called for native copies
+  onProgress?: ((bytes: number) => void) | undefined;
+}
+
+// Prefixes are folders here: "photos", "photos/" and "/photos/" all mean "photos/"
+const asFolder = (prefix = ''): string => {
+  const path = prefix.split('/').filter(Boolean).join('/');
+  return path ? `${path}/` : '';
+};
+
+// The destination key keeps the object's path below the source prefix
+export const copyKey = (sourceKey: string, sourcePrefix: string, prefix: string | undefined): string =>
+  `${asFolder(prefix)}${sourceKey.slice(asFolder(sourcePrefix).length)}`;
+
+/**
+ * Same provider and the same credentials, endpoint and account, so the
+ * destination's client can read the source bucket and the service can copy
+ * between the two without the bytes passing through this server.
+ */
+export const sameAccount = (source: CloudConfig, destination: CloudConfig): boolean => {
+  const account = (config: CloudConfig) =>
+    JSON.stringify(config.provider === 'azure' ? { ...config, containerName: undefined } : { ...config, bucket: undefined });
+  return account(source) === account(destination);
+};
+
+export const objectLocation = (config: CloudConfig, key: string): string => {
+  switch (config.provider) {
+    case 's3':
+      return `s3://${config.bucket}/${key}`;
+    case 'gcp':
+      return `gs://${config.bucket}/${key}`;
+    case 'azure':
+      return `https://${config.accountName}.blob.core.windows.net/${config.containerName}/${key}`;
+    case 'local':
+      return `local://${config.bucket}/${key}`;
+  }
+};
+
+/**
+ * Lists every object under `sourcePrefix` and maps it to its destination key
+ * under `prefix`. Keys ending in "/" are folder placeholders and are left out.
+ * Listing stops after COPY_MAX_OBJECTS objects and marks the plan truncated.
+ */
+export const planCopy = async (
+  source: CloudConfig,
+  destination: CloudConfig,
+  { sourcePrefix = '', prefix }: { sourcePrefix?: string | undefined; prefix?: string | undefined } = {}
+): Promise<CopyPlan> => {
+  const from = asFolder(sourcePrefix);
+  const native = sameAccount(source, destination);
+  if (native && describeTarget(source) === describeTarget(destination) && from === asFolder(prefix)) {
+    throw new AppError('COPY_SAME_LOCATION', 'The source and destination are the same folder');
+  }
+
+  const provider = getProvider(source);
+  const plan: CopyPlan = { objects: [], totalBytes: 0, truncated: false, native };
+  let token: string | undefined;
+
+  do {
+    const page = await provider.list(source, { prefix: from, pageToken: token, maxResults: COPY_LIST_PAGE_SIZE });
+    for (const object of page.objects.filter((candidate) => !candidate.key.endsWith('/'))) {
+      if (plan.objects.length === COPY_MAX_OBJECTS) {
+        plan.truncated = true;
+        break;
+      }
+      plan.objects.push({ sourceKey: object.key, key: copyKey(object.key, from, prefix), size: object.size });
+      plan.totalBytes += object.size;
+    }
+    token = page.nextPageToken;
+  } while (token && !plan.truncated);
+
+  return plan;
+};
+
+const countBytes = (body: Readable, onProgress: (bytes: number) => void): Readable => {
+  let bytes = 0;
+  const counted = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      bytes += chunk.length;
+      onProgress(bytes);
+      callback(null, chunk);
+    },
+  });
+  body.on('error', (error) => counted.destroy(error));
+  return body.pipe(counted);
+};
+
+/**
+ * Copies one object into `key` of the destination, applying the conflict
+ * policy first. Native copies are done by the service; otherwise the object
+ * is streamed from the source into the destination with its content type,
+ * cache control, content disposition and metadata.
+ */
+export const copyObject = async (
+  source: CloudConfig,
+  destination: CloudConfig,
+  sourceKey: string,
+  key: string,
+  { onConflict = 'overwrite', native = false, allowedContentTypes, onProgress }: CopyObjectOptions = {}
+): Promise<CopyOutcome> => {
+  const target = await resolveConflict(destination, key, onConflict);
+  if (target.action === 'skipped') {
+    return { key, conflict: 'skipped' };
+  }
+
+  const provider = getProvider(destination);
+  let body: Readable | undefined;
+  try {
+    if (native) {
+      if (allowedContentTypes) {
+        const info = await getProvider(source).head(source, sourceKey);
+        assertContentTypeAllowed(info?.contentType ?? 'application/octet-stream', allowedContentTypes);
+      }
+      const { location } = await provider.copy(destination, sourceKey, target.key, {
+        onlyIfAbsent: target.onlyIfAbsent,
+        sourceBucket: describeTarget(source),
+      });
+      const info = await provider.head(destination, target.key);
+      return {
+        key: target.key,
+        location,
+        size: info?.size ?? 0,
+        contentType: info?.contentType ?? 'application/octet-stream',
+        conflict: target.action,
+      };
+    }
+
+    const object = await getProvider(source).open(source, sourceKey);
+    body = object.body;
+    const contentType = object.info.contentType ?? 'application/octet-stream';
+    assertContentTypeAllowed(contentType, allowedContentTypes);
+
+    const result = await uploadStream(
+      destination,
+      target.key,
+      onProgress ? countBytes(body, onProgress) : body,
+      contentType,
+      { onlyIfAbsent: target.onlyIfAbsent, objectOptions: object.objectOptions }
+    );
+    return { ...result, contentType, conflict: target.action };
+  } catch (error) {
+    body?.destroy();
+    // Another writer created the key after the lookup; for `skip` that is the same outcome
+    if (onConflict === 'skip' && error instanceof AppError && error.code === 'OBJECT_EXISTS') {
+      return { key: target.key, conflict: 'skipped' };
+    }
+    throw error;
+  }
+};
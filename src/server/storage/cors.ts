@@ -0,0 +1,156 @@
+import { createHash } from 'node:crypto';
+import { getProvider } from '../providers/registry.js';
+import type { StorageProvider } from '../providers/types.js';
+import { AppError } from '../utils/errors.js';
+import type { CloudConfig } from './schemas.js';
+
+/**
+ * Bucket CORS rules in a provider-neutral shape. Browser uploads PUT to the
+ * storage service directly, so the bucket (or, for Azure, the account) must
+ * allow this app's origin.
+ */
+export interface CorsRule {
+  origins: string[];
+  methods: string[];
+  allowedHeaders: string[];
+  exposeHeaders: string[];
+  maxAgeSeconds?: number | undefined;
+}
+
+// What a bucket rule lacks for this app's browser uploads; empty lists mean covered
+export interface CorsGaps {
+  methods: string[];
+  allowedHeaders: string[];
+  exposeHeaders: string[];
+}
+
+// The current rules measured against this app's needs; `proposed` is the full list to write, if any change is needed
+export interface CorsPlan {
+  origin: string;
+  rules: CorsRule[];
+  required: CorsRule;
+  missing?: CorsGaps | undefined;
+  proposed?: CorsRule[] | undefined;
+  // Identifies the rules the plan was made from, so an apply cannot overwrite changes made since
+  fingerprint: string;
+}
+
+// The origin the UI is served from, as configured for this server's own CORS middleware
+export const appOrigin = (): string => process.env.CORS_ORIGIN || 'http://localhost:3000';
+
+/**
+ * Signed PUTs carry Content-Type plus provider headers that depend on the
+ * object options, so every request header is allowed; multipart uploads read
+ * each part's ETag, and GET serves download previews. GCS has a single header
+ * list for both directions and its resumable uploads report progress in Range.
+ */
+export const requiredCorsRule = (provider: CloudConfig['provider'], origin: string = appOrigin()): CorsRule =>
+  provider === 'gcp'
+    ? {
+      origins: [origin],
+      methods: ['GET', 'PUT'],
+      allowedHeaders: ['Content-Type'],
+      exposeHeaders: ['Range'],
+      maxAgeSeconds: 3600,
+    }
+    : {
+      origins: [origin],
+      methods: ['GET', 'PUT'],
+      allowedHeaders: ['*'],
+      exposeHeaders: ['ETag'],
+      maxAgeSeconds: 3600,
+    };
+
+// "*" and "https://*.example.com" style wildcards, compared without case
+const globMatches = (pattern: string, value: string): boolean =>
+  new RegExp(`^${pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i')
+    .test(value);
+
+const missing = (granted: string[], required: string[]): string[] =>
+  required.filter((value) => !granted.some((pattern) => globMatches(pattern, value)));
+
+const gapCount = (gaps: CorsGaps): number =>
+  gaps.methods.length + gaps.allowedHeaders.length + gaps.exposeHeaders.length;
+
+/**
+ * Compares the rules with the required one, using the rule that matches the
+ * origin and comes closest; `undefined` when that rule covers everything.
+ * With no rule for the origin, every requirement is reported missing.
+ */
+export const corsGaps = (rules: CorsRule[], required: CorsRule): CorsGaps | undefined => {
+  const origin = required.origins[0] ?? appOrigin();
+  let best: CorsGaps = {
+    methods: required.methods,
+    allowedHeaders: required.allowedHeaders,
+    exposeHeaders: required.exposeHeaders,
+  };
+
+  for (const rule of rules.filter((candidate) => candidate.origins.some((pattern) => globMatches(pattern, origin)))) {
+    const gaps: CorsGaps = {
+      methods: missing(rule.methods, required.methods),
+      allowedHeaders: missing(rule.allowedHeaders, required.allowedHeaders),
+      exposeHeaders: missing(rule.exposeHeaders, required.exposeHeaders),
+    };
+    if (gapCount(gaps) < gapCount(best)) best = gaps;
+  }
+
+  return gapCount(best) > 0 ? best : undefined;
+};
+
+const fingerprintRules = (rules: CorsRule[]): string =>
+  createHash('sha256').update(JSON.stringify(rules)).digest('hex').slice(0, 16);
+
+type CorsProvider = StorageProvider & Required<Pick<StorageProvider, 'getCors' | 'setCors'>>;
+
+const corsProvider = (config: CloudConfig): CorsProvider => {
+  const provider = getProvider(config);
+  if (!provider.getCors || !provider.setCors) {
+    throw new AppError(
+      'CORS_NOT_SUPPORTED',
+      `The ${config.provider} provider has no CORS configuration; browser uploads go through this server`
+    );
+  }
+  return provider as CorsProvider;
+};
+
+/**
+ * Reads the bucket's rules and, when they fall short, proposes them with the
+ * required rule added in front. Services use the first rule that matches a
+ * request, so existing rules are kept unchanged behind it.
+ */
+export const planCors = async (config: CloudConfig, origin: string = appOrigin()): Promise<CorsPlan> => {
+  const rules = await corsProvider(config).getCors(config);
+  const required = requiredCorsRule(config.provider, origin);
+  const missing = corsGaps(rules, required);
+
+  return {
+    origin,
+    rules,
+    required,
+    ...(missing && { missing, proposed: [required, ...rules] }),
+    fingerprint: fingerprintRules(rules),
+  };
+};
+
+/**
+ * Writes the planned rules once the caller confirms the plan identified by
+ * `fingerprint`. Rules changed since then fail with CORS_CHANGED, and rules
+ * that already cover the app are left alone.
+ */
+export const applyCors = async (
+  config: CloudConfig,
+  fingerprint: string,
+  origin: string = appOrigin()
+): Promise<CorsPlan & { applied: boolean }> => {
+  const plan = await planCors(config, origin);
+  if (plan.fingerprint !== fingerprint) {
+    throw new AppError('CORS_CHANGED', 'The CORS configuration changed since it was reviewed; review it again', 409);
+  }
+  if (!plan.proposed) {
+    return { ...plan, applied: false };
+  }
+
+  await corsProvider(config).setCors(config, plan.proposed);
+  const rules = plan.proposed;
+  return { origin, rules, required: plan.required, fingerprint: fingerprintRules(rules), applied: true };
+};
@@ -0,0 +1,44 @@
+import type { ObjectOptions } from './schemas.js';
+import { redactUrl } from '../utils/redact.js';
+
+// Metadata key recording where a server-side transfer fetched the object from
+export const SOURCE_URL_METADATA_KEY = 'source_url';
+// The per-value and total limits the metadata schema enforces, which fit every provider
+const MAX_METADATA_VALUE_LENGTH = 1024;
+const MAX_METADATA_TOTAL_LENGTH = 2048;
+
+// S3 `x-amz-tagging` and Azure `x-ms-tags` both take tags as a URL-encoded query string
+export const encodeTags = (tags: Record<string, string>): string =>
+  Object.entries(tags)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+
+// A source's own metadata (from a manifest row) wins over the batch's, key by key
+export const withMetadata = (
+  options: ObjectOptions | undefined,
+  metadata: Record<string, string> | undefined
+): ObjectOptions | undefined =>
+  metadata ? { ...options, metadata: { ...options?.metadata, ...metadata } } : options;
+
+/**
+ * Records the source URL unless the caller set the key or it does not fit the
+ * metadata limits. Anyone who can read the object's metadata can read it, so
+ * user info is dropped and signed or credential query parameters are redacted.
+ */
+export const withSourceUrl = (options: ObjectOptions, url: string): ObjectOptions => {
+  const parsed = new URL(url);
+  parsed.username = '';
+  parsed.password = '';
+  const href = redactUrl(parsed.href);
+
+  const total = Object.entries(options.metadata ?? {})
+    .reduce((sum, [key, value]) => sum + key.length + value.length, SOURCE_URL_METADATA_KEY.length + href.length);
+  if (
+    options.metadata?.[SOURCE_URL_METADATA_KEY] !== undefined
+    || href.length > MAX_METADATA_VALUE_LENGTH
+    || total > MAX_METADATA_TOTAL_LENGTH
+  ) {
+    return options;
+  }
+  return { ...options, metadata: { [SOURCE_URL_METADATA_KEY]: href, ...options.metadata } };
+};
@@ -0,0 +1,186 @@
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import {
+  cloudConfigSchema,
+  CloudConfig,
+  contentTypePatternSchema,
+  keyOptionsSchema,
+  objectOptionsSchema,
+} from './schemas.js';
+import type { ObjectOptions } from './schemas.js';
+import { prefixFolder } from '../utils/keyTemplate.js';
+import type { KeyTemplateOptions } from '../utils/keyTemplate.js';
+import { AppError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Named storage profiles let clients reference server-held credentials
+ * (`{ profile: "prod-assets" }`) instead of sending keys from the browser.
+ *
+ * Profiles come from the JSON file named by STORAGE_PROFILES_FILE:
+ *
+ *   { "prod-assets": { "description": "...", "keyTemplate": "...", "prefix": "...",
+ *                      "allowedContentTypes": ["image/*"], "objectOptions": { ... }, "config": { ... } } }
+ *
+ * and from the provider variables in env.example, which register the
+ * `s3-default`, `gcp-default` and `azure-default` profiles when set.
+ */
+const profileSchema = z.object({
+  description: z.string().optional(),
+  // Uploads whose sniffed content type matches none of these are rejected
+  allowedContentTypes: z.array(contentTypePatternSchema).min(1).optional(),
+  // Defaults for every object written through the profile
+  objectOptions: objectOptionsSchema.optional(),
+  config: cloudConfigSchema,
+}).merge(keyOptionsSchema);
+
+const profilesFileSchema = z.record(profileSchema);
+
+export type StorageProfile = z.infer<typeof profileSchema> & { name: string };
+
+const profilesFromEnv = (): StorageProfile[] => {
+  const env = process.env;
+  const profiles: StorageProfile[] = [];
+
+  if (env.AWS_S3_BUCKET && env.AWS_ACCESS_KEY_ID && env.AWS_SECRET_ACCESS_KEY) {
+    profiles.push({
+      name: 's3-default',
+      description: 'AWS S3 bucket from environment',
+      config: {
+        provider: 's3',
+        bucket: env.AWS_S3_BUCKET,
+        region: env.AWS_REGION || 'us-east-1',
+        accessKeyId: env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
+        ...(env.AWS_SESSION_TOKEN && { sessionToken: env.AWS_SESSION_TOKEN }),
+        ...(env.AWS_S3_ENDPOINT && { endpoint: env.AWS_S3_ENDPOINT }),
+      },
+    });
+  }
+
+  // Without GCP_KEY_FILE_PATH the profile uses application default credentials
+  if (env.GCP_BUCKET_NAME && env.GCP_PROJECT_ID) {
+    profiles.push({
+      name: 'gcp-default',
+      description: 'Google Cloud Storage bucket from environment',
+      config: {
+        provider: 'gcp',
+        bucket: env.GCP_BUCKET_NAME,
+        projectId: env.GCP_PROJECT_ID,
+        ...(env.GCP_KEY_FILE_PATH && { keyFile: env.GCP_KEY_FILE_PATH }),
+      },
+    });
+  }
+
+  if (env.AZURE_STORAGE_ACCOUNT && env.AZURE_STORAGE_CONTAINER
+    && (env.AZURE_STORAGE_ACCOUNT_KEY || env.AZURE_STORAGE_SAS_TOKEN)) {
+    profiles.push({
+      name: 'azure-default',
+      description: 'Azure Blob container from environment',
+      config: {
+        provider: 'azure',
+        accountName: env.AZURE_STORAGE_ACCOUNT,
+        containerName: env.AZURE_STORAGE_CONTAINER,
+        ...(env.AZURE_STORAGE_ACCOUNT_KEY && { accountKey: env.AZURE_STORAGE_ACCOUNT_KEY }),
+        ...(env.AZURE_STORAGE_SAS_TOKEN && { sasToken: env.AZURE_STORAGE_SAS_TOKEN }),
+      },
+    });
+  }
+
+  return profiles;
+};
+
+const profilesFromFile = (filePath: string): StorageProfile[] => {
+  const parsed = profilesFileSchema.parse(JSON.parse(readFileSync(filePath, 'utf8')));
+  return Object.entries(parsed).map(([name, profile]) => ({ ...profile, name }));
+};
+
+const loadProfiles = (): Map<string, StorageProfile> => {
+  const registry = new Map<string, StorageProfile>();
+
+  for (const profile of profilesFromEnv()) {
+    registry.set(profile.name, profile);
+  }
+
+  const filePath = process.env.STORAGE_PROFILES_FILE;
+  if (filePath) {
+    try {
+      // File profiles take precedence over the env-derived defaults
+      for (const profile of profilesFromFile(filePath)) {
+        registry.set(profile.name, profile);
+      }
+    } catch (error) {
+      logger.error('Failed to load storage profiles', { error, filePath });
+    }
+  }
+
+  logger.info('Storage profiles loaded', { profiles: [...registry.keys()] });
+  return registry;
+};
+
+// Loaded on first use and cached for the lifetime of the process
+let profiles: Map<string, StorageProfile> | undefined;
+
+const getProfiles = (): Map<string, StorageProfile> => {
+  profiles ??= loadProfiles();
+  return profiles;
+};
+
+export const getProfile = (name: string): StorageProfile | undefined => getProfiles().get(name);
+
+export const listProfiles = (): StorageProfile[] => [...getProfiles().values()];
+
+// Set ALLOW_INLINE_CREDENTIALS=false to accept only profile references
+export const inlineCredentialsAllowed = (): boolean =>
+  process.env.ALLOW_INLINE_CREDENTIALS !== 'false';
+
+// A request's key template replaces the profile's, but every key still starts with the profile's
+// prefix; {prefix} renders the request's prefix below it
+export const keyOptionsFor = (profileName: string | undefined, request: KeyTemplateOptions): KeyTemplateOptions => {
+  const profile = profileName ? getProfile(profileName) : undefined;
+  const keyTemplate = request.keyTemplate || profile?.keyTemplate;
+  const folder = profile?.prefix;
+
+  return {
+    ...(keyTemplate && { keyTemplate }),
+    ...(request.prefix && { prefix: request.prefix }),
+    ...(folder && { folder }),
+  };
+};
+
+// The full prefix a request's prefix stands for through a profile, e.g. for listings and probes
+export const prefixFor = (profileName: string | undefined, prefix?: string): string =>
+  [profileName ? getProfile(profileName)?.prefix : undefined, prefix].filter(Boolean).join('/');
+
+// Browsing and changing objects through a profile is confined to the folder its uploads go to
+export const profileFolder = (profileName: string | undefined): string =>
+  prefixFolder(profileName ? getProfile(profileName)?.prefix : undefined);
+
+// Keys are full object keys; through a profile with a prefix they must lie below its folder
+export const assertInFolder = (folder: string, key: string) => {
+  if (!folder) return;
+  const escapes = key.split('/').some((segment) => segment === '.' || segment === '..');
+  if (escapes || !key.startsWith(folder)) {
+    throw new AppError('KEY_OUTSIDE_PROFILE', `"${key}" is outside the profile's folder "${folder}"`, 403);
+  }
+};
+
+// Request options override the profile's, except metadata and tags, which are merged key by key
+export const objectOptionsFor = (profileName: string | undefined, request: ObjectOptions = {}): ObjectOptions => {
+  const defaults = (profileName ? getProfile(profileName)?.objectOptions : undefined) ?? {};
+  const metadata = { ...defaults.metadata, ...request.metadata };
+  const tags = { ...defaults.tags, ...request.tags };
+
+  return {
+    ...defaults,
+    ...request,
+    ...(Object.keys(metadata).length > 0 && { metadata }),
+    ...(Object.keys(tags).length > 0 && { tags }),
+  };
+};
+
+export const allowedContentTypesFor = (profileName: string | undefined): string[] | undefined =>
+  profileName ? getProfile(profileName)?.allowedContentTypes : undefined;
+
+export const describeTarget = (config: CloudConfig): string =>
+  config.provider === 'azure' ? config.containerName : config.bucket;
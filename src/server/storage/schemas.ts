@@ -0,0 +1,220 @@
+import { z } from 'zod';
+import { S3_PRESETS } from '../providers/s3Presets.js';
+import { findUnknownTokens, KEY_TEMPLATE_TOKENS } from '../utils/keyTemplate.js';
+
+export const sourceUrlSchema = z.string().url().refine(
+  (value) => ['http:', 'https:'].includes(new URL(value).protocol),
+  'Only http and https URLs are supported'
+);
+
+export const keyTemplateSchema = z.string()
+  .min(1)
+  .max(256)
+  .regex(/^[A-Za-z0-9._\-/{}]+$/, 'Key templates may contain letters, digits, ".", "_", "-", "/" and tokens')
+  .refine(
+    (template) => findUnknownTokens(template).length === 0,
+    (template) => ({
+      message: `Unknown key template tokens: ${findUnknownTokens(template).join(', ')}; `
+        + `supported tokens are ${KEY_TEMPLATE_TOKENS.map((token) => `{${token}}`).join(', ')}`,
+    })
+  );
+
+// Destination settings shared by upload requests and storage profiles
+export const keyOptionsSchema = z.object({
+  keyTemplate: keyTemplateSchema.optional(),
+  prefix: z.string().max(512).optional(),
+});
+
+// A MIME type with optional parameters, as declared by browsers and origin servers
+export const contentTypeSchema = z.string()
+  .max(255)
+  .regex(/^[\w!#$&^.+-]+\/[\w!#$&^.+-]+(\s*;.*)?$/, 'Invalid content type');
+
+// Content type allowlist entries: "image/png" or "image/*"
+export const contentTypePatternSchema = z.string()
+  .regex(/^[\w!#$&^.+-]+\/(\*|[\w!#$&^.+-]+)$/, 'Expected a content type such as "image/png" or "image/*"');
+
+// Header values are sent as-is; CR/LF would split the request
+const headerValueSchema = (max: number) => z.string().max(max).regex(/^[\x20-\x7e]*$/, 'Only printable ASCII is allowed');
+
+// Azure metadata names must be identifiers, which also satisfies S3 and GCS
+const metadataKeySchema = z.string().regex(/^[a-z_][a-z0-9_]{0,63}$/, 'Metadata keys may contain lowercase letters, digits and "_"');
+
+const metadataSchema = z.record(metadataKeySchema, headerValueSchema(1024))
+  .refine(
+    (metadata) => Object.entries(metadata).reduce((sum, [key, value]) => sum + key.length + value.length, 0) <= 2048,
+    'Metadata may total at most 2 KB'
+  );
+
+// Characters S3 and Azure both accept in tag keys and values
+const tagPattern = /^[A-Za-z0-9 +\-=.:/@_]*$/;
+
+/**
+ * Properties stored with the object: HTTP headers it is served with, user
+ * metadata, tags, storage class (S3 storage class, GCS storage class or Azure
+ * access tier) and the KMS key (GCS key name, Azure encryption scope).
+ */
+export const objectOptionsSchema = z.object({
+  cacheControl: headerValueSchema(256).optional(),
+  contentDisposition: headerValueSchema(512).optional(),
+  metadata: metadataSchema.optional(),
+  tags: z.record(z.string().min(1).max(128).regex(tagPattern), z.string().max(256).regex(tagPattern))
+    .refine((tags) => Object.keys(tags).length <= 10, 'At most 10 tags are allowed')
+    .optional(),
+  storageClass: z.string().regex(/^[A-Za-z_]{1,32}$/, 'Invalid storage class').optional(),
+  kmsKeyId: z.string().max(2048).regex(/^[\w:/.@-]+$/, 'Invalid KMS key ID').optional(),
+});
+
+// Connection-level headers are set by the server for every source request
+const MANAGED_SOURCE_HEADERS = new Set([
+  'host', 'connection', 'content-length', 'transfer-encoding', 'te', 'upgrade', 'keep-alive', 'expect', 'proxy-connection',
+]);
+
+// Extra request headers sent when the server fetches a source URL
+export const sourceHeadersSchema = z.record(
+  z.string()
+    .regex(/^[!#$%&'*+.^_`|~\w-]{1,128}$/, 'Invalid header name')
+    .refine((name) => !MANAGED_SOURCE_HEADERS.has(name.toLowerCase()), (name) => ({ message: `Header ${name} cannot be set` })),
+  headerValueSchema(8192)
+).refine((headers) => Object.keys(headers).length <= 50, 'At most 50 headers are allowed');
+
+// RFC 6265 cookie names are tokens; values must not contain separators
+const cookieNameSchema = z.string().regex(/^[!#$%&'*+.^_`|~\w-]{1,128}$/, 'Invalid cookie name');
+const cookieValueSchema = z.string().max(4096).regex(/^[\x21\x23-\x2b\x2d-\x3a\x3c-\x5b\x5d-\x7e]*$/, 'Invalid cookie value');
+
+export const sourceAuthSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('basic'),
+    username: headerValueSchema(256).regex(/^[^:]*$/, 'Usernames cannot contain ":"'),
+    password: headerValueSchema(1024),
+  }),
+  z.object({
+    type: z.literal('bearer'),
+    token: headerValueSchema(8192).min(1),
+  }),
+]);
+
+/**
+ * How the server requests a source: extra headers, cookies, basic or bearer
+ * auth, an inactivity timeout and a redirect limit below the policy's.
+ * Applies to a whole batch (`source`) or, as top-level fields, to one row.
+ */
+export const sourceOptionsSchema = z.object({
+  headers: sourceHeadersSchema.optional(),
+  cookies: z.record(cookieNameSchema, cookieValueSchema).optional(),
+  auth: sourceAuthSchema.optional(),
+  timeoutMs: z.number().int().min(1000).max(600_000).optional(),
+  maxRedirects: z.number().int().min(0).max(20).optional(),
+});
+
+/**
+ * One source with its own options, as imported from a manifest row. `key`
+ * replaces the key template (the prefix still applies), `contentType` stands
+ * in for the type the source declares, `metadata` is merged over the batch's
+ * object metadata and the source options over the batch's.
+ */
+export const sourceEntrySchema = z.object({
+  url: sourceUrlSchema,
+  key: z.string().min(1).max(1024).optional(),
+  contentType: contentTypeSchema.optional(),
+  metadata: metadataSchema.optional(),
+}).merge(sourceOptionsSchema);
+
+// What to do when the destination key already exists
+export const conflictPolicySchema = z.enum(['overwrite', 'skip', 'rename', 'fail']);
+
+// How server-side transfers retry transient failures; omitted fields take the defaults
+export const retryPolicySchema = z.object({
+  // Includes the first try; 1 disables retries
+  maxAttempts: z.number().int().min(1).max(10).default(3),
+  baseDelayMs: z.number().int().min(0).max(60_000).default(1000),
+  maxDelayMs: z.number().int().min(0).max(300_000).default(30_000),
+  jitter: z.boolean().default(true),
+  retryableStatuses: z.array(z.number().int().min(100).max(599)).max(50).default([408, 429, 500, 502, 503, 504]),
+});
+
+// Provider configuration schemas shared by the signing and transfer routes
+export const s3ConfigSchema = z.object({
+  provider: z.literal('s3'),
+  bucket: z.string().min(1),
+  // Both are substituted into preset endpoint host names, so only host-safe characters.
+  // Region falls back to the preset's default when omitted
+  region: z.string().regex(/^[a-z0-9-]+$/, 'Region may contain only lowercase letters, digits and hyphens').or(z.literal('')).optional(),
+  accessKeyId: z.string().min(1),
+  secretAccessKey: z.string().min(1),
+  sessionToken: z.string().optional(),
+  // S3-compatible services: a preset supplies endpoint, addressing and checksum defaults
+  preset: z.enum(['aws', 'r2', 'minio', 'b2', 'spaces']).optional(),
+  endpoint: z.string().url().or(z.literal('')).optional(),
+  accountId: z.string().regex(/^[a-f0-9]{32}$/, 'Account ID must be 32 hexadecimal characters').or(z.literal('')).optional(),
+  forcePathStyle: z.boolean().optional(),
+});
+
+export const gcpConfigSchema = z.object({
+  provider: z.literal('gcp'),
+  bucket: z.string().min(1),
+  projectId: z.string().min(1),
+  // Inline service-account JSON; profiles may also give a key file path or omit it for application default credentials
+  keyFile: z.string().optional(),
+});
+
+export const azureConfigSchema = z.object({
+  provider: z.literal('azure'),
+  // Becomes the host name of the blob endpoint
+  accountName: z.string().regex(/^[a-z0-9]{3,24}$/, 'Account name must be 3-24 lowercase letters and digits'),
+  containerName: z.string().min(1),
+  accountKey: z.string().optional(),
+  sasToken: z.string().optional(),
+});
+
+// Development provider: `bucket` is a directory under LOCAL_STORAGE_DIR
+export const localConfigSchema = z.object({
+  provider: z.literal('local'),
+  bucket: z.string().regex(/^[a-z0-9][a-z0-9._-]{0,62}$/i, 'Bucket must be a single directory name'),
+});
+
+export const cloudConfigSchema = z.discriminatedUnion('provider', [
+  s3ConfigSchema,
+  gcpConfigSchema,
+  azureConfigSchema,
+  localConfigSchema,
+]).superRefine((config, ctx) => {
+  if (config.provider !== 's3') return;
+  if (!config.preset) {
+    if (!config.region) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['region'],
+        message: 'Region is required unless a preset is selected',
+      });
+    }
+    return;
+  }
+
+  const preset = S3_PRESETS[config.preset];
+  if (preset.requiresEndpoint && !config.endpoint) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['endpoint'],
+      message: `${preset.label} requires an endpoint URL`,
+    });
+  }
+  if (preset.requiresAccountId && !config.accountId && !config.endpoint) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['accountId'],
+      message: `${preset.label} requires an account ID`,
+    });
+  }
+});
+
+export type S3Config = z.infer<typeof s3ConfigSchema>;
+export type GcpConfig = z.infer<typeof gcpConfigSchema>;
+export type AzureConfig = z.infer<typeof azureConfigSchema>;
+export type LocalConfig = z.infer<typeof localConfigSchema>;
+export type CloudConfig = z.infer<typeof cloudConfigSchema>;
+export type ConflictPolicy = z.infer<typeof conflictPolicySchema>;
+export type RetryPolicy = z.infer<typeof retryPolicySchema>;
+export type ObjectOptions = z.infer<typeof objectOptionsSchema>;
+export type SourceOptions = z.infer<typeof sourceOptionsSchema>;
+export type SourceEntry = z.infer<typeof sourceEntrySchema>;
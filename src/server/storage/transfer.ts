@@ -0,0 +1,123 @@
+import { Readable } from 'node:stream';
+import { uploadStream, StreamUploadResult } from './upload.js';
+import type { CloudConfig, ConflictPolicy, ObjectOptions, SourceOptions } from './schemas.js';
+import { withSourceUrl } from './objectOptions.js';
+import { resolveConflict } from './conflicts.js';
+import type { ConflictAction } from './conflicts.js';
+import { fetchSource } from '../utils/sourceFetch.js';
+import { sourceRequestOptions } from '../utils/sourceOptions.js';
+import { assertContentTypeAllowed, inspectContent, SNIFF_BYTES } from '../utils/contentType.js';
+import { AppError } from '../utils/errors.js';
+
+export interface TransferResult extends StreamUploadResult {
+  contentType: string;
+  conflict: Exclude<ConflictAction, 'skipped'>;
+}
+
+// The destination existed and the policy was `skip`; the source was not fetched
+export interface SkippedTransfer {
+  key: string;
+  conflict: 'skipped';
+}
+
+export type TransferOutcome = TransferResult | SkippedTransfer;
+
+export interface TransferOptions {
+  onConflict?: ConflictPolicy | undefined;
+  // Profile allowlist checked against the sniffed content type
+  allowedContentTypes?: string[] | undefined;
+  // Properties for the stored object; the source URL is added to its metadata
+  objectOptions?: ObjectOptions | undefined;
+  // Stands in for the type the source declares; a recognised signature still wins
+  contentType?: string | undefined;
+  // Headers, auth, timeout and redirect limit for the source request
+  source?: SourceOptions | undefined;
+}
+
+// Reads the first `size` bytes and returns a stream that still yields the whole body
+const peekStream = async (body: Readable, size: number): Promise<{ head: Buffer; body: Readable }> => {
+  const iterator: AsyncIterator<Buffer> = body[Symbol.asyncIterator]();
+  const chunks: Buffer[] = [];
+  let length = 0;
+
+  while (length < size) {
+    const { value, done } = await iterator.next();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+  }
+
+  async function* replay() {
+    try {
+      yield* chunks;
+      for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+        yield next.value;
+      }
+    } finally {
+      await iterator.return?.();
+    }
+  }
+
+  return {
+    head: Buffer.concat(chunks).subarray(0, size),
+    body: Readable.from(replay(), { objectMode: false }),
+  };
+};
+
+/**
+ * Fetches a source URL and streams it into storage under `key`, applying the
+ * conflict policy first; shared by the transfer route and job workers. The
+ * content type is sniffed from the first bytes, and when that corrects the
+ * key's extension the conflict policy is applied again to the new key.
+ */
+export const transferUrl = async (
+  config: CloudConfig,
+  url: string,
+  key: string,
+  { onConflict = 'overwrite', allowedContentTypes, objectOptions = {}, contentType, source: sourceOptions }: TransferOptions = {}
+): Promise<TransferOutcome> => {
+  let target = await resolveConflict(config, key, onConflict);
+  if (target.action === 'skipped') {
+    return { key, conflict: 'skipped' };
+  }
+
+  const source = await fetchSource(url, sourceRequestOptions(sourceOptions));
+  const { head, body } = await peekStream(source.body, SNIFF_BYTES);
+  // The replay generator only closes the source once it has been read, so an unread body is destroyed along with its source
+  const discard = () => {
+    body.destroy();
+    source.body.destroy();
+  };
+
+  const content = inspectContent(key, contentType ?? source.contentType, head);
+
+  try {
+    assertContentTypeAllowed(content.contentType, allowedContentTypes);
+    if (content.key !== key) {
+      target = await resolveConflict(config, content.key, onConflict);
+      if (target.action === 'skipped') {
+        discard();
+        return { key: content.key, conflict: 'skipped' };
+      }
+    }
+  } catch (error) {
+    discard();
+    throw error;
+  }
+
+  try {
+    const result = await uploadStream(config, target.key, body, content.contentType, {
+      onlyIfAbsent: target.onlyIfAbsent,
+      objectOptions: withSourceUrl(objectOptions, url),
+    });
+    return { ...result, contentType: content.contentType, conflict: target.action };
+  } catch (error) {
+    // Another writer created the key after the lookup; for `skip` that is the same outcome
+    if (onConflict === 'skip' && error instanceof AppError && error.code === 'OBJECT_EXISTS') {
+      discard();
+      return { key: target.key, conflict: 'skipped' };
+    }
+    discard();
+    throw error;
+  }
+};
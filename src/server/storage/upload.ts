@@ -0,0 +1,46 @@
+import { Readable, Transform } from 'node:stream';
+import { getProvider } from '../providers/registry.js';
+import type { UploadOptions } from '../providers/types.js';
+import type { CloudConfig } from './schemas.js';
+import { createChecksumCalculator } from './checksums.js';
+import type { ChecksumAlgorithm, Checksums } from './checksums.js';
+
+export interface StreamUploadResult {
+  key: string;
+  location: string;
+  size: number;
+  checksums: Checksums;
+  verifiedWith?: ChecksumAlgorithm | undefined;
+}
+
+/**
+ * Streams a body into the configured bucket/container. The body is consumed
+ * chunk by chunk; no provider path buffers the full object in memory.
+ */
+export const uploadStream = async (
+  config: CloudConfig,
+  key: string,
+  body: Readable,
+  contentType: string,
+  options: Omit<UploadOptions, 'checksums'> = {}
+): Promise<StreamUploadResult> => {
+  let size = 0;
+  const checksums = createChecksumCalculator();
+  // Count and hash inside the transform rather than with a 'data' listener, which
+  // would switch the stream to flowing mode before the provider starts reading
+  const counted = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      checksums.update(chunk);
+      callback(null, chunk);
+    },
+  });
+  body.on('error', (error) => counted.destroy(error));
+  body.pipe(counted);
+
+  const { location, verifiedWith } = await getProvider(config).upload(config, key, counted, contentType, {
+    ...options,
+    checksums: checksums.digest,
+  });
+  return { key, location, size, checksums: checksums.digest(), ...(verifiedWith && { verifiedWith }) };
+};
@@ -0,0 +1,39 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Multipart uploads are started and completed by separate requests. The
+ * start settles the key and content type (sniffed and checked against the
+ * profile allowlist); the token handed out with the upload ID binds them, so
+ * the request that completes the upload cannot commit another type.
+ */
+export interface MultipartBinding {
+  uploadId: string;
+  key: string;
+  contentType: string;
+}
+
+let secret: Buffer | undefined;
+
+// Without UPLOAD_TOKEN_SECRET, uploads started before a restart cannot be completed
+const getSecret = (): Buffer => {
+  if (!secret) {
+    const configured = process.env.UPLOAD_TOKEN_SECRET;
+    if (!configured) {
+      logger.warn('UPLOAD_TOKEN_SECRET is not set; using a random per-process key for multipart upload tokens');
+    }
+    secret = configured ? Buffer.from(configured) : randomBytes(32);
+  }
+  return secret;
+};
+
+export const multipartToken = ({ uploadId, key, contentType }: MultipartBinding): string =>
+  createHmac('sha256', getSecret())
+    .update([uploadId, key, contentType].join('\n'))
+    .digest('hex');
+
+export const verifyMultipartToken = (binding: MultipartBinding, token: string): boolean => {
+  const expected = Buffer.from(multipartToken(binding), 'hex');
+  const actual = Buffer.from(token, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
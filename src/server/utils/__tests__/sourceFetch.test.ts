@@ -0,0 +1,51 @@
+import { createServer } from 'node:http';
+import type { IncomingHttpHeaders, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { fetchSource } from '../sourceFetch.js';
+
+const listen = (server: Server): Promise<number> =>
+  new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)));
+
+describe('fetchSource redirects', () => {
+  let received: IncomingHttpHeaders | undefined;
+  const target = createServer((req, res) => {
+    received = req.headers;
+    res.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok');
+  });
+  let targetUrl: string;
+  const origin = createServer((_req, res) => {
+    res.writeHead(302, { Location: targetUrl }).end();
+  });
+  let originUrl: string;
+
+  beforeAll(async () => {
+    const [originPort, targetPort] = await Promise.all([listen(origin), listen(target)]);
+    originUrl = `http://127.0.0.1:${originPort}/a.txt`;
+    targetUrl = `http://127.0.0.1:${targetPort}/a.txt`;
+    // The policy is read on first use; loopback sources are refused by default
+    process.env.SOURCE_ALLOWED_CIDRS = '127.0.0.0/8';
+    process.env.SOURCE_ALLOWED_PORTS = `${originPort},${targetPort}`;
+  });
+
+  afterAll(async () => {
+    await Promise.all([origin, target].map((server) => new Promise((resolve) => server.close(resolve))));
+  });
+
+  it('drops credential headers, including custom key headers, when a redirect leaves the origin', async () => {
+    const { body } = await fetchSource(originUrl, {
+      headers: {
+        Authorization: 'Bearer source-token',
+        Cookie: 'sid=cookie-secret',
+        'X-Api-Key': 'key-secret',
+        'X-Upstream-Token': 'token-secret',
+        Accept: 'text/plain',
+      },
+    });
+    body.resume();
+
+    expect(received).toMatchObject({ accept: 'text/plain' });
+    for (const name of ['authorization', 'cookie', 'x-api-key', 'x-upstream-token']) {
+      expect(received).not.toHaveProperty(name);
+    }
+  });
+});
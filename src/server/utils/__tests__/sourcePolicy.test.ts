@@ -0,0 +1,85 @@
+import { BlockList } from 'node:net';
+import { checkSourceAddress, checkSourceResponse, checkSourceUrl, getSourcePolicy } from '../sourcePolicy.js';
+import type { SourcePolicy } from '../sourcePolicy.js';
+import { AppError } from '../errors.js';
+
+const policy = (overrides: Partial<SourcePolicy> = {}): SourcePolicy => ({ ...getSourcePolicy(), ...overrides });
+
+const blockReason = (check: () => void): string | undefined => {
+  try {
+    check();
+    return undefined;
+  } catch (error) {
+    expect(error).toBeInstanceOf(AppError);
+    expect((error as AppError).code).toBe('SOURCE_URL_BLOCKED');
+    return ((error as AppError).details as { reason: string }).reason;
+  }
+};
+
+describe('checkSourceUrl', () => {
+  it('allows public http and https URLs on the default ports', () => {
+    expect(blockReason(() => checkSourceUrl(new URL('https://example.com/a.jpg')))).toBeUndefined();
+    expect(blockReason(() => checkSourceUrl(new URL('http://93.184.216.34/a.jpg')))).toBeUndefined();
+  });
+
+  it('refuses other protocols', () => {
+    expect(blockReason(() => checkSourceUrl(new URL('file:///etc/passwd')))).toBe('protocol');
+    expect(blockReason(() => checkSourceUrl(new URL('ftp://example.com/a')))).toBe('protocol');
+  });
+
+  it('refuses ports outside the allowed list', () => {
+    expect(blockReason(() => checkSourceUrl(new URL('http://example.com:8080/')))).toBe('port');
+    expect(blockReason(() => checkSourceUrl(new URL('http://example.com:8080/'), policy({ allowedPorts: [8080] })))).toBeUndefined();
+  });
+
+  it('refuses metadata host names before resolving them', () => {
+    expect(blockReason(() => checkSourceUrl(new URL('http://metadata.google.internal/')))).toBe('host');
+  });
+
+  it.each([
+    'http://127.0.0.1/',
+    'http://10.1.2.3/',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://[::1]/',
+    'http://[::ffff:127.0.0.1]/',
+    'http://[fd00::1]/',
+  ])('refuses the reserved address in %s', (url) => {
+    expect(blockReason(() => checkSourceUrl(new URL(url)))).toBe('address');
+  });
+
+  it('only admits listed hosts when an allowlist is set', () => {
+    const rules = policy({ allowedHosts: [/^.*\.example\.com$/] });
+    expect(blockReason(() => checkSourceUrl(new URL('https://cdn.example.com/a'), rules))).toBeUndefined();
+    expect(blockReason(() => checkSourceUrl(new URL('https://example.org/a'), rules))).toBe('host');
+  });
+});
+
+describe('checkSourceAddress', () => {
+  it('re-opens reserved ranges listed in the allowed CIDRs only', () => {
+    const allowedCidrs = new BlockList();
+    allowedCidrs.addSubnet('10.0.0.0', 8, 'ipv4');
+    const rules = policy({ allowedCidrs });
+
+    expect(blockReason(() => checkSourceAddress('10.1.2.3', rules))).toBeUndefined();
+    expect(blockReason(() => checkSourceAddress('192.168.1.1', rules))).toBe('address');
+  });
+
+  it('refuses denied ranges even when they are public', () => {
+    const deniedCidrs = new BlockList();
+    deniedCidrs.addSubnet('93.184.216.0', 24, 'ipv4');
+    expect(blockReason(() => checkSourceAddress('93.184.216.34', policy({ deniedCidrs })))).toBe('address');
+  });
+});
+
+describe('checkSourceResponse', () => {
+  it('refuses sources over the size limit', () => {
+    expect(blockReason(() => checkSourceResponse('image/png', 2048, policy({ maxBytes: 1024 })))).toBe('size');
+    expect(blockReason(() => checkSourceResponse('image/png', undefined, policy({ maxBytes: 1024 })))).toBeUndefined();
+  });
+
+  it('refuses content types outside the allowlist', () => {
+    const rules = policy({ allowedContentTypes: ['image/*'] });
+    expect(blockReason(() => checkSourceResponse('image/png', 10, rules))).toBeUndefined();
+    expect(blockReason(() => checkSourceResponse('text/html', 10, rules))).toBe('content_type');
+  });
+});
@@ -0,0 +1,242 @@
+import { AppError } from './errors.js';
+
+/**
+ * Content types are decided from the first bytes of the file rather than the
+ * type the browser or origin server declares. Formats without a signature
+ * (text, JSON, CSV) keep the declared type, or get one from the extension.
+ */
+
+// Enough for the tar header, whose magic sits at offset 257
+export const SNIFF_BYTES = 512;
+
+const GENERIC_TYPE = 'application/octet-stream';
+
+// Known types and their extensions; the first extension is the one added to keys
+const EXTENSIONS: Record<string, string[]> = {
+  'image/png': ['png'],
+  'image/jpeg': ['jpg', 'jpeg', 'jfif'],
+  'image/gif': ['gif'],
+  'image/webp': ['webp'],
+  'image/tiff': ['tif', 'tiff'],
+  'image/avif': ['avif'],
+  'image/heic': ['heic', 'heif'],
+  'image/svg+xml': ['svg'],
+  'application/pdf': ['pdf'],
+  'application/zip': ['zip'],
+  'application/gzip': ['gz', 'tgz'],
+  'application/x-bzip2': ['bz2'],
+  'application/x-7z-compressed': ['7z'],
+  'application/vnd.rar': ['rar'],
+  'application/x-tar': ['tar'],
+  'application/wasm': ['wasm'],
+  'application/vnd.microsoft.portable-executable': ['exe', 'dll'],
+  'video/mp4': ['mp4', 'm4v'],
+  'video/quicktime': ['mov'],
+  'video/3gpp': ['3gp'],
+  'video/webm': ['webm'],
+  'video/x-matroska': ['mkv'],
+  'video/x-msvideo': ['avi'],
+  'audio/mpeg': ['mp3'],
+  'audio/mp4': ['m4a'],
+  'audio/ogg': ['ogg', 'oga', 'opus'],
+  'audio/flac': ['flac'],
+  'audio/wav': ['wav'],
+  'font/woff': ['woff'],
+  'font/woff2': ['woff2'],
+  'text/html': ['html', 'htm'],
+  'text/plain': ['txt'],
+  'text/csv': ['csv'],
+  'text/css': ['css'],
+  'text/markdown': ['md'],
+  'text/javascript': ['js', 'mjs'],
+  'application/json': ['json'],
+  'application/xml': ['xml'],
+  'application/epub+zip': ['epub'],
+  'application/java-archive': ['jar'],
+  'application/vnd.android.package-archive': ['apk'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['docx'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['xlsx'],
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': ['pptx'],
+  'application/vnd.oasis.opendocument.text': ['odt'],
+  'application/vnd.oasis.opendocument.spreadsheet': ['ods'],
+  'application/vnd.oasis.opendocument.presentation': ['odp'],
+};
+
+// Formats sharing a container signature; the key's extension selects the specific type
+const CONTAINER_VARIANTS: Record<string, string[]> = {
+  'application/zip': [
+    'application/epub+zip',
+    'application/java-archive',
+    'application/vnd.android.package-archive',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.oasis.opendocument.text',
+    'application/vnd.oasis.opendocument.spreadsheet',
+    'application/vnd.oasis.opendocument.presentation',
+  ],
+  'video/webm': ['video/x-matroska'],
+  'video/mp4': ['video/quicktime', 'video/3gpp', 'audio/mp4'],
+};
+
+interface Signature {
+  type: string;
+  bytes: number[] | string;
+  offset?: number;
+}
+
+const SIGNATURES: Signature[] = [
+  { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'image/gif', bytes: 'GIF8' },
+  { type: 'image/tiff', bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { type: 'image/tiff', bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { type: 'application/pdf', bytes: '%PDF-' },
+  { type: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { type: 'application/zip', bytes: [0x50, 0x4b, 0x05, 0x06] },
+  { type: 'application/gzip', bytes: [0x1f, 0x8b] },
+  { type: 'application/x-bzip2', bytes: 'BZh' },
+  { type: 'application/x-7z-compressed', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { type: 'application/vnd.rar', bytes: 'Rar!\x1a\x07' },
+  { type: 'application/x-tar', bytes: 'ustar', offset: 257 },
+  { type: 'application/wasm', bytes: [0x00, 0x61, 0x73, 0x6d] },
+  { type: 'application/vnd.microsoft.portable-executable', bytes: 'MZ' },
+  { type: 'video/webm', bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { type: 'audio/mpeg', bytes: 'ID3' },
+  { type: 'audio/mpeg', bytes: [0xff, 0xfb] },
+  { type: 'audio/mpeg', bytes: [0xff, 0xf3] },
+  { type: 'audio/mpeg', bytes: [0xff, 0xf2] },
+  { type: 'audio/ogg', bytes: 'OggS' },
+  { type: 'audio/flac', bytes: 'fLaC' },
+  { type: 'font/woff', bytes: 'wOFF' },
+  { type: 'font/woff2', bytes: 'wOF2' },
+];
+
+// RIFF containers carry their format at offset 8
+const RIFF_FORMATS: Record<string, string> = {
+  'WEBP': 'image/webp',
+  'WAVE': 'audio/wav',
+  'AVI ': 'video/x-msvideo',
+};
+
+// ISO base media files (MP4 and relatives) name their major brand after "ftyp"
+const FTYP_BRANDS: Record<string, string> = {
+  'avif': 'image/avif',
+  'avis': 'image/avif',
+  'heic': 'image/heic',
+  'heix': 'image/heic',
+  'mif1': 'image/heic',
+  'msf1': 'image/heic',
+  'qt  ': 'video/quicktime',
+  'M4A ': 'audio/mp4',
+  '3gp4': 'video/3gpp',
+  '3gp5': 'video/3gpp',
+};
+
+const SNIFFABLE_TYPES = new Set([
+  ...SIGNATURES.map((signature) => signature.type),
+  ...Object.values(RIFF_FORMATS),
+  ...Object.values(FTYP_BRANDS),
+  'video/mp4',
+  'text/html',
+  'image/svg+xml',
+]);
+
+const startsWith = (head: Buffer, { bytes, offset = 0 }: Signature): boolean => {
+  const expected = typeof bytes === 'string' ? Buffer.from(bytes, 'latin1') : Buffer.from(bytes);
+  return head.length >= offset + expected.length
+    && head.subarray(offset, offset + expected.length).equals(expected);
+};
+
+// Markup is recognised so HTML and SVG cannot be stored under an image or text type
+const sniffMarkup = (head: Buffer): string | undefined => {
+  const text = head.toString('utf8').replace(/^\uFEFF/, '').trimStart().toLowerCase();
+  if (text.startsWith('<!doctype html') || text.startsWith('<html')) return 'text/html';
+  if (text.startsWith('<svg') || (text.startsWith('<?xml') && text.includes('<svg'))) return 'image/svg+xml';
+  return undefined;
+};
+
+export const sniffContentType = (head: Buffer): string | undefined => {
+  const fourCC = (offset: number) => head.subarray(offset, offset + 4).toString('latin1');
+
+  if (fourCC(0) === 'RIFF') return RIFF_FORMATS[fourCC(8)];
+  if (fourCC(4) === 'ftyp') return FTYP_BRANDS[fourCC(8)] ?? 'video/mp4';
+
+  return SIGNATURES.find((signature) => startsWith(head, signature))?.type ?? sniffMarkup(head);
+};
+
+// "text/plain; charset=utf-8" -> "text/plain"
+export const baseContentType = (contentType: string): string =>
+  contentType.split(';')[0]?.trim().toLowerCase() ?? '';
+
+const extensionOf = (key: string): string => {
+  const name = key.slice(key.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+const typeForExtension = (extension: string): string | undefined =>
+  Object.keys(EXTENSIONS).find((type) => EXTENSIONS[type]?.includes(extension));
+
+/**
+ * "photo.jpg" holding a PNG becomes "photo.png"; a key without a recognised
+ * extension gets one appended ("download" -> "download.pdf").
+ */
+export const fixKeyExtension = (key: string, contentType: string): string => {
+  const extensions = EXTENSIONS[contentType];
+  const current = extensionOf(key);
+  if (!extensions?.[0] || extensions.includes(current)) return key;
+
+  const base = typeForExtension(current) ? key.slice(0, -(current.length + 1)) : key;
+  return `${base}.${extensions[0]}`;
+};
+
+export interface ContentInspection {
+  contentType: string;
+  // The key with its extension corrected to match a sniffed type
+  key: string;
+}
+
+/**
+ * Decides the content type for `key`. With the file's first bytes, a
+ * recognised signature wins over the declared type; a declared type that
+ * claims a sniffable format the bytes do not match is discarded. Without
+ * `head` the declared type is used as is.
+ */
+export const inspectContent = (key: string, declared: string, head?: Buffer): ContentInspection => {
+  const byExtension = typeForExtension(extensionOf(key));
+  const sniffed = head && head.length > 0 ? sniffContentType(head) : undefined;
+
+  if (sniffed) {
+    const variant = byExtension && CONTAINER_VARIANTS[sniffed]?.includes(byExtension) ? byExtension : undefined;
+    const contentType = variant ?? sniffed;
+    return { contentType, key: variant ? key : fixKeyExtension(key, contentType) };
+  }
+
+  // Neither the declared type nor the extension may claim a format the bytes do not match
+  const trusted = (type: string | undefined) =>
+    type && type !== GENERIC_TYPE && !(head && head.length > 0 && SNIFFABLE_TYPES.has(type)) ? type : undefined;
+  const contentType = trusted(baseContentType(declared)) ?? trusted(byExtension) ?? GENERIC_TYPE;
+  return { contentType, key };
+};
+
+// Patterns are exact types or "type/*"
+export const matchesContentType = (contentType: string, patterns: string[]): boolean => {
+  const type = baseContentType(contentType);
+  return patterns.some((pattern) => {
+    const expected = pattern.toLowerCase();
+    return expected.endsWith('/*') ? type.startsWith(expected.slice(0, -1)) : type === expected;
+  });
+};
+
+// No allowlist allows every type
+export const assertContentTypeAllowed = (contentType: string, allowed: string[] | undefined): void => {
+  if (allowed && allowed.length > 0 && !matchesContentType(contentType, allowed)) {
+    throw new AppError(
+      'CONTENT_TYPE_NOT_ALLOWED',
+      `Content type ${contentType} is not allowed; expected ${allowed.join(', ')}`,
+      415,
+      { contentType, allowed }
+    );
+  }
+};
@@ -0,0 +1,40 @@
+import type { Response } from 'express';
+
+// Error carrying an API error code and HTTP status. The code is also used as
+// the error name so the global error handler reports it unchanged.
+export class AppError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+    public readonly statusCode: number = 400,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = code;
+  }
+}
+
+/**
+ * Sends the API error body for a failed request. An AppError supplies its own
+ * code, status and details; any other error is reported under `code` with
+ * `statusCode`, and a value that is not an Error under `fallbackMessage`.
+ * `extra` adds route-specific fields to the error body.
+ */
+export const sendError = (
+  res: Response,
+  error: unknown,
+  code: string,
+  fallbackMessage: string,
+  statusCode = 400,
+  extra: Record<string, unknown> = {},
+) => {
+  return res.status(error instanceof AppError ? error.statusCode : statusCode).json({
+    error: {
+      code: error instanceof AppError ? error.code : code,
+      message: error instanceof Error ? error.message : fallbackMessage,
+      ...(error instanceof AppError && error.details !== undefined && { details: error.details }),
+      ...extra,
+      timestamp: new Date().toISOString(),
+    }
+  });
+};
@@ -0,0 +1,12 @@
+// Mirrors the client-side sanitizer so server-side transfers produce the same keys
+export const sanitizeFileName = (fileName: string): string => {
+  return fileName
+    .replace(/[^a-zA-Z0-9._-]/g, '_')
+    .replace(/_{2,}/g, '_')
+    .substring(0, 255);
+};
+
+export const fileNameFromUrl = (url: string): string => {
+  const { pathname } = new URL(url);
+  return sanitizeFileName(pathname.split('/').pop() || 'uploaded-file');
+};
@@ -0,0 +1,97 @@
+import { createHash } from 'node:crypto';
+import { fileNameFromUrl, sanitizeFileName } from './fileName.js';
+
+/**
+ * Object keys are rendered from templates such as
+ * `{prefix}/{yyyy}/{mm}/{host}/{basename}-{hash8}.{ext}`. Dates are UTC at the
+ * time of rendering; `{hash8}` is derived from the source URL, so the same
+ * source always maps to the same key.
+ */
+export const KEY_TEMPLATE_TOKENS = [
+  'prefix',
+  'yyyy',
+  'mm',
+  'dd',
+  'hh',
+  'host',
+  'path',
+  'filename',
+  'basename',
+  'ext',
+  'hash8',
+] as const;
+
+export type KeyTemplateToken = typeof KEY_TEMPLATE_TOKENS[number];
+
+// Matches the bare file name keys the app produced before templates existed
+export const DEFAULT_KEY_TEMPLATE = '{prefix}/{filename}';
+
+const MAX_KEY_LENGTH = 1024;
+const TOKEN_PATTERN = /\{([a-z0-9]+)\}/gi;
+
+export interface KeyTemplateOptions {
+  keyTemplate?: string | undefined;
+  prefix?: string | undefined;
+  // A profile's folder; every key starts with it, whatever the template renders
+  folder?: string | undefined;
+}
+
+export interface KeySource {
+  url: string;
+  fileName?: string | undefined;
+  // An explicit key (a manifest row's) replaces the template; the prefix still applies
+  key?: string | undefined;
+}
+
+export const findUnknownTokens = (template: string): string[] =>
+  [...template.matchAll(TOKEN_PATTERN)]
+    .map((match) => match[1] ?? '')
+    .filter((token) => !(KEY_TEMPLATE_TOKENS as readonly string[]).includes(token));
+
+// Sanitizes each path segment while keeping the separators
+const sanitizePath = (value: string): string =>
+  value.split('/').filter(Boolean).map(sanitizeFileName).join('/');
+
+// The folder keys rendered with this prefix start with, e.g. "team_a/" for "/team a"; empty without a prefix
+export const prefixFolder = (prefix = ''): string => {
+  const path = sanitizePath(prefix);
+  return path ? `${path}/` : '';
+};
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+export const renderKey = (source: KeySource, options: KeyTemplateOptions = {}, now = new Date()): string => {
+  const url = new URL(source.url);
+  const filename = source.fileName ? sanitizeFileName(source.fileName) : fileNameFromUrl(source.url);
+  const dot = filename.lastIndexOf('.');
+
+  const values: Record<KeyTemplateToken, string> = {
+    prefix: sanitizePath(options.prefix ?? ''),
+    yyyy: String(now.getUTCFullYear()),
+    mm: pad(now.getUTCMonth() + 1),
+    dd: pad(now.getUTCDate()),
+    hh: pad(now.getUTCHours()),
+    host: sanitizeFileName(url.hostname),
+    path: sanitizePath(url.pathname.split('/').slice(0, -1).join('/')),
+    filename,
+    basename: dot > 0 ? filename.slice(0, dot) : filename,
+    ext: dot > 0 ? filename.slice(dot + 1) : '',
+    hash8: createHash('sha256').update(source.url).digest('hex').slice(0, 8),
+  };
+
+  const rendered = source.key
+    ? `${values.prefix}/${sanitizePath(source.key)}`
+    : (options.keyTemplate || DEFAULT_KEY_TEMPLATE).replace(
+      TOKEN_PATTERN,
+      (_match, token: string) => values[token as KeyTemplateToken] ?? ''
+    );
+
+  // Empty tokens can leave empty segments and dangling separators ("name-." for a missing {ext})
+  const key = rendered
+    .split('/')
+    .map((segment) => segment.replace(/[.-]+$/, ''))
+    .filter((segment) => segment && segment !== '.' && segment !== '..')
+    .join('/');
+
+  return `${prefixFolder(options.folder)}${key || filename}`.substring(0, MAX_KEY_LENGTH);
+};
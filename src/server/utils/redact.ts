@@ -0,0 +1,43 @@
+/**
+ * Masks credentials before values reach the logs: signed URL parameters,
+ * passwords in URLs and credential-bearing source headers.
+ */
+export const REDACTED = '[redacted]';
+
+// Query parameters of signed URLs (S3, GCS, Azure, local) and common API credentials
+const SECRET_PARAM_PATTERN = /sig|signature|credential|token|secret|password|passwd|api[-_]?key|access[-_]?key|session/i;
+
+// Header names whose values are credentials
+const SECRET_HEADER_PATTERN = /auth|cookie|token|secret|password|api[-_]?key|session|signature/i;
+
+export const isSecretHeader = (name: string): boolean => SECRET_HEADER_PATTERN.test(name);
+
+// Accepts absolute URLs and request paths ("/api/x?signature=...")
+export const redactUrl = (url: string): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, 'http://localhost');
+  } catch {
+    return url;
+  }
+
+  let changed = false;
+  if (parsed.password) {
+    parsed.password = 'redacted';
+    changed = true;
+  }
+  for (const name of [...parsed.searchParams.keys()]) {
+    if (SECRET_PARAM_PATTERN.test(name)) {
+      parsed.searchParams.set(name, 'redacted');
+      changed = true;
+    }
+  }
+
+  if (!changed) return url;
+  return url.startsWith('/') ? `${parsed.pathname}${parsed.search}${parsed.hash}` : parsed.href;
+};
+
+export const redactHeaders = (headers: Record<string, string>): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name, isSecretHeader(name) ? REDACTED : value])
+  );
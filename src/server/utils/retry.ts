@@ -0,0 +1,74 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import { retryPolicySchema } from '../storage/schemas.js';
+import type { RetryPolicy } from '../storage/schemas.js';
+import { AppError } from './errors.js';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = retryPolicySchema.parse({});
+
+// Connection-level failures that say nothing about the request itself
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+]);
+
+// HTTP status carried by source fetch and provider SDK errors (S3, Azure and GCS name it differently)
+const statusOf = (error: unknown): number | undefined => {
+  const candidate = error instanceof AppError
+    ? (error.details as { status?: unknown } | undefined)?.status
+    : (error as { $metadata?: { httpStatusCode?: unknown } } | undefined)?.$metadata?.httpStatusCode
+      ?? (error as { statusCode?: unknown } | undefined)?.statusCode
+      ?? (error as { code?: unknown } | undefined)?.code;
+  return typeof candidate === 'number' ? candidate : undefined;
+};
+
+/**
+ * Source fetch failures without a status are network errors and always
+ * retried; other application errors (blocked URLs, conflicts, disallowed
+ * types) are final, except a checksum mismatch, which is worth another try.
+ */
+export const isRetryable = (error: unknown, policy: RetryPolicy): boolean => {
+  const status = statusOf(error);
+
+  if (error instanceof AppError) {
+    if (error.code === 'CHECKSUM_MISMATCH') return true;
+    if (error.code !== 'SOURCE_FETCH_FAILED') return false;
+    return status === undefined || policy.retryableStatuses.includes(status);
+  }
+  if (status !== undefined) return policy.retryableStatuses.includes(status);
+  return NETWORK_ERROR_CODES.has((error as NodeJS.ErrnoException | undefined)?.code ?? '');
+};
+
+// Exponential backoff capped at maxDelayMs; jitter picks a delay between half and all of it
+export const retryDelay = (policy: RetryPolicy, attempt: number): number => {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return policy.jitter ? Math.round(delay / 2 + Math.random() * (delay / 2)) : delay;
+};
+
+/**
+ * Runs `operation` until it succeeds, fails with an error that is not
+ * retryable, or has made `maxAttempts` attempts; the last error is rethrown.
+ * `onRetry` runs before each wait, e.g. to record the attempt.
+ */
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void | Promise<void>
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryable(error, policy)) throw error;
+
+      const delayMs = retryDelay(policy, attempt);
+      await onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+};
@@ -0,0 +1,176 @@
+import { lookup as dnsLookup } from 'node:dns';
+import type { LookupAddress } from 'node:dns';
+import { request as httpRequest } from 'node:http';
+import type { IncomingMessage } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import type { LookupFunction } from 'node:net';
+import { Readable, Transform } from 'node:stream';
+import { AppError } from './errors.js';
+import { isSecretHeader } from './redact.js';
+import {
+  checkSourceAddress,
+  checkSourceResponse,
+  checkSourceUrl,
+  getSourcePolicy,
+  sourceUrlBlocked,
+} from './sourcePolicy.js';
+import type { SourcePolicy } from './sourcePolicy.js';
+
+export interface SourceResponse {
+  body: Readable;
+  contentType: string;
+  contentLength?: number;
+}
+
+export interface SourceRequestOptions {
+  // Sent with the request; added to (or replacing) the default User-Agent and Accept
+  headers?: Record<string, string> | undefined;
+  // Gives up when the source sends nothing for this long, before or during the body
+  timeoutMs?: number | undefined;
+  // Can only lower the policy's limit
+  maxRedirects?: number | undefined;
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const IDLE_TIMEOUT_MS = 60_000;
+
+// `status` is the origin's HTTP status; failures without one happened on the network
+const fetchFailed = (message: string, status?: number): AppError =>
+  new AppError('SOURCE_FETCH_FAILED', `Fetch failed: ${message}`, 502, status === undefined ? undefined : { status });
+
+/**
+ * Resolves host names for source requests and refuses the connection when
+ * any resolved address is disallowed. The socket connects to the address
+ * checked here, so a second lookup cannot rebind the name to another host.
+ */
+export const guardedLookup = (rules: SourcePolicy): LookupFunction => (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error, '', 0);
+
+    try {
+      addresses.forEach(({ address }) => checkSourceAddress(address, rules));
+    } catch (blocked) {
+      return callback(blocked as NodeJS.ErrnoException, '', 0);
+    }
+
+    if (options.all) return callback(null, addresses);
+    const [first] = addresses;
+    return first
+      ? callback(null, first.address, first.family)
+      : callback(Object.assign(new Error(`No addresses for ${hostname}`), { code: 'ENOTFOUND' }), '', 0);
+  });
+};
+
+const requestOnce = (
+  url: URL,
+  rules: SourcePolicy,
+  headers: Record<string, string>,
+  timeoutMs: number
+): Promise<IncomingMessage> =>
+  new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? httpsRequest : httpRequest)(url, {
+      method: 'GET',
+      lookup: guardedLookup(rules),
+      headers: { 'User-Agent': 's3-url-uploader', Accept: '*/*', ...headers },
+    });
+    request.setTimeout(timeoutMs, () => request.destroy(new Error(`no response for ${timeoutMs}ms`)));
+    request.on('response', resolve);
+    request.on('error', reject);
+    request.end();
+  });
+
+// Errors the body stream once more than `maxBytes` have passed through
+const byteLimit = (maxBytes: number): Transform => {
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      callback(
+        received > maxBytes ? sourceUrlBlocked('size', `Source exceeds the ${maxBytes} byte limit`) : null,
+        chunk
+      );
+    },
+  });
+};
+
+// Like browsers, credentials are not forwarded when a redirect leaves the original origin;
+// that includes custom key headers such as X-Api-Key, matched as they are for redaction
+const withoutCredentials = (headers: Record<string, string>): Record<string, string> =>
+  Object.fromEntries(Object.entries(headers).filter(([name]) => !isSecretHeader(name)));
+
+/**
+ * Opens a source URL for server-side transfers and exposes the response body
+ * as a Node stream so it can be piped into storage without buffering. The
+ * source policy is applied to the URL, each redirect hop and every resolved
+ * address; violations throw `SOURCE_URL_BLOCKED`.
+ */
+export const fetchSource = async (
+  url: string,
+  { headers = {}, timeoutMs = IDLE_TIMEOUT_MS, maxRedirects }: SourceRequestOptions = {}
+): Promise<SourceResponse> => {
+  const rules = getSourcePolicy();
+  const redirectLimit = Math.min(maxRedirects ?? rules.maxRedirects, rules.maxRedirects);
+  const origin = new URL(url).origin;
+  let current = new URL(url);
+  let response: IncomingMessage;
+
+  for (let redirects = 0; ; redirects++) {
+    checkSourceUrl(current, rules);
+
+    try {
+      response = await requestOnce(
+        current,
+        rules,
+        current.origin === origin ? headers : withoutCredentials(headers),
+        timeoutMs
+      );
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw fetchFailed(error instanceof Error ? error.message : 'network error');
+    }
+
+    const location = response.headers.location;
+    if (!REDIRECT_STATUSES.has(response.statusCode ?? 0) || !location) break;
+
+    response.resume();
+    if (redirects >= redirectLimit) {
+      throw sourceUrlBlocked('redirects', `More than ${redirectLimit} redirects`);
+    }
+    try {
+      current = new URL(location, current);
+    } catch {
+      throw fetchFailed(`invalid redirect location ${location}`, response.statusCode);
+    }
+  }
+
+  const status = response.statusCode ?? 0;
+  if (status < 200 || status >= 300) {
+    response.resume();
+    throw fetchFailed(`${status} ${response.statusMessage ?? ''}`.trim(), status);
+  }
+
+  const contentType = response.headers['content-type']?.split(';')[0]?.trim() || 'application/octet-stream';
+  const contentLength = Number(response.headers['content-length']);
+  const knownLength = Number.isFinite(contentLength) && contentLength > 0 ? contentLength : undefined;
+
+  try {
+    checkSourceResponse(contentType, knownLength, rules);
+  } catch (error) {
+    response.destroy();
+    throw error;
+  }
+
+  let body: Readable = response;
+  if (rules.maxBytes > 0) {
+    const limited = byteLimit(rules.maxBytes);
+    response.on('error', (error) => limited.destroy(error));
+    limited.on('close', () => response.destroy());
+    body = response.pipe(limited);
+  }
+
+  return {
+    body,
+    contentType,
+    ...(knownLength !== undefined && { contentLength: knownLength }),
+  };
+};
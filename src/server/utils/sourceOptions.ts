@@ -0,0 +1,81 @@
+import type { SourceEntry, SourceOptions } from '../storage/schemas.js';
+import { REDACTED, redactHeaders } from './redact.js';
+import type { SourceRequestOptions } from './sourceFetch.js';
+
+// Later sets win; names are compared without case so "authorization" replaces "Authorization"
+const mergeHeaders = (...sets: (Record<string, string> | undefined)[]): Record<string, string> | undefined => {
+  const merged = new Map<string, [string, string]>();
+  for (const headers of sets) {
+    for (const [name, value] of Object.entries(headers ?? {})) {
+      merged.set(name.toLowerCase(), [name, value]);
+    }
+  }
+  return merged.size > 0 ? Object.fromEntries(merged.values()) : undefined;
+};
+
+// The source options carried as top-level fields of a manifest row
+export const entrySourceOptions = ({ headers, cookies, auth, timeoutMs, maxRedirects }: SourceEntry): SourceOptions | undefined => {
+  const options: SourceOptions = {
+    ...(headers && { headers }),
+    ...(cookies && { cookies }),
+    ...(auth && { auth }),
+    ...(timeoutMs !== undefined && { timeoutMs }),
+    ...(maxRedirects !== undefined && { maxRedirects }),
+  };
+  return Object.keys(options).length > 0 ? options : undefined;
+};
+
+/**
+ * A row's source options override the batch's field by field; headers and
+ * cookies are merged by name.
+ */
+export const mergeSourceOptions = (
+  batch: SourceOptions | undefined,
+  row: SourceOptions | undefined
+): SourceOptions | undefined => {
+  if (!batch || !row) return row ?? batch;
+
+  const headers = mergeHeaders(batch.headers, row.headers);
+  const cookies = batch.cookies || row.cookies ? { ...batch.cookies, ...row.cookies } : undefined;
+  return {
+    ...batch,
+    ...row,
+    ...(headers && { headers }),
+    ...(cookies && { cookies }),
+  };
+};
+
+/**
+ * What `fetchSource` sends. `auth` and `cookies` replace an Authorization or
+ * Cookie header given directly.
+ */
+export const sourceRequestOptions = (options: SourceOptions = {}): SourceRequestOptions => {
+  const { auth, cookies } = options;
+  const authorization = auth?.type === 'basic'
+    ? `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}`
+    : auth?.type === 'bearer' ? `Bearer ${auth.token}` : undefined;
+
+  return {
+    headers: mergeHeaders(
+      options.headers,
+      cookies && { Cookie: Object.entries(cookies).map(([name, value]) => `${name}=${value}`).join('; ') },
+      authorization ? { Authorization: authorization } : undefined
+    ),
+    timeoutMs: options.timeoutMs,
+    maxRedirects: options.maxRedirects,
+  };
+};
+
+// Safe to log or return to clients: secrets are masked, the shape is kept
+export const redactSourceOptions = (options: SourceOptions): SourceOptions => ({
+  ...options,
+  ...(options.headers && { headers: redactHeaders(options.headers) }),
+  ...(options.cookies && {
+    cookies: Object.fromEntries(Object.keys(options.cookies).map((name) => [name, REDACTED])),
+  }),
+  ...(options.auth && {
+    auth: options.auth.type === 'basic'
+      ? { ...options.auth, password: REDACTED }
+      : { ...options.auth, token: REDACTED },
+  }),
+});
@@ -0,0 +1,185 @@
+import { BlockList, isIP } from 'node:net';
+import { matchesContentType } from './contentType.js';
+import { AppError } from './errors.js';
+
+/**
+ * Rules for the URLs the server fetches on a client's behalf. Everything is
+ * read from the environment (see env.example) and applied by `fetchSource` to
+ * the original URL, every redirect and every address a host name resolves to.
+ *
+ * Private, loopback, link-local (including cloud metadata at 169.254.169.254)
+ * and other special-purpose ranges are always refused unless a range is
+ * re-opened with SOURCE_ALLOWED_CIDRS.
+ */
+export interface SourcePolicy {
+  allowedHosts: RegExp[];
+  deniedHosts: RegExp[];
+  allowedCidrs: BlockList;
+  deniedCidrs: BlockList;
+  allowedPorts: number[];
+  maxRedirects: number;
+  // 0 disables the limit
+  maxBytes: number;
+  // Empty allows any type; entries may end in "/*"
+  allowedContentTypes: string[];
+}
+
+export type SourceBlockReason =
+  | 'protocol'
+  | 'port'
+  | 'host'
+  | 'address'
+  | 'redirects'
+  | 'size'
+  | 'content_type';
+
+const DEFAULT_PORTS = [80, 443];
+const DEFAULT_MAX_REDIRECTS = 5;
+
+// Metadata services are also blocked by address; the names are refused before resolving
+const DEFAULT_DENIED_HOSTS = ['metadata.google.internal', 'metadata.goog', 'metadata.azure.com'];
+
+const RESERVED_IPV4 = [
+  '0.0.0.0/8',
+  '10.0.0.0/8',
+  '100.64.0.0/10',
+  '127.0.0.0/8',
+  '169.254.0.0/16',
+  '172.16.0.0/12',
+  '192.0.0.0/24',
+  '192.0.2.0/24',
+  '192.88.99.0/24',
+  '192.168.0.0/16',
+  '198.18.0.0/15',
+  '198.51.100.0/24',
+  '203.0.113.0/24',
+  '224.0.0.0/4',
+  '240.0.0.0/4',
+];
+
+const RESERVED_IPV6 = [
+  '::/128',
+  '::1/128',
+  '64:ff9b::/96',
+  '64:ff9b:1::/48',
+  '100::/64',
+  '2001:db8::/32',
+  '2002::/16',
+  'fc00::/7',
+  'fe80::/10',
+  'ff00::/8',
+];
+
+export const sourceUrlBlocked = (reason: SourceBlockReason, message: string): AppError =>
+  new AppError('SOURCE_URL_BLOCKED', message, 403, { reason });
+
+const listFromEnv = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map((entry) => entry.trim()).filter(Boolean);
+
+// "*.example.com" matches any subdomain of example.com, "*" matches every host
+const hostPattern = (glob: string): RegExp =>
+  new RegExp(`^${glob.toLowerCase().split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+
+const addCidrs = (list: BlockList, cidrs: string[], variable: string): BlockList => {
+  for (const cidr of cidrs) {
+    const [address = '', prefix] = cidr.split('/');
+    const family = isIP(address);
+    if (!family) {
+      throw new Error(`${variable}: "${cidr}" is not a valid CIDR range`);
+    }
+    const bits = prefix === undefined ? (family === 4 ? 32 : 128) : Number(prefix);
+    list.addSubnet(address, bits, family === 4 ? 'ipv4' : 'ipv6');
+  }
+  return list;
+};
+
+const reserved = addCidrs(addCidrs(new BlockList(), RESERVED_IPV4, 'reserved'), RESERVED_IPV6, 'reserved');
+
+const nonNegativeInteger = (value: string | undefined, fallback: number, variable: string): number => {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${variable} must be a non-negative integer`);
+  }
+  return parsed;
+};
+
+let policy: SourcePolicy | undefined;
+
+export const getSourcePolicy = (): SourcePolicy => {
+  if (!policy) {
+    const env = process.env;
+    const ports = listFromEnv(env.SOURCE_ALLOWED_PORTS).map(Number);
+    if (ports.some((port) => !Number.isInteger(port) || port < 1 || port > 65535)) {
+      throw new Error('SOURCE_ALLOWED_PORTS must be a comma-separated list of port numbers');
+    }
+
+    policy = {
+      allowedHosts: listFromEnv(env.SOURCE_ALLOWED_HOSTS).map(hostPattern),
+      deniedHosts: [...DEFAULT_DENIED_HOSTS, ...listFromEnv(env.SOURCE_DENIED_HOSTS)].map(hostPattern),
+      allowedCidrs: addCidrs(new BlockList(), listFromEnv(env.SOURCE_ALLOWED_CIDRS), 'SOURCE_ALLOWED_CIDRS'),
+      deniedCidrs: addCidrs(new BlockList(), listFromEnv(env.SOURCE_DENIED_CIDRS), 'SOURCE_DENIED_CIDRS'),
+      allowedPorts: ports.length > 0 ? ports : DEFAULT_PORTS,
+      maxRedirects: nonNegativeInteger(env.SOURCE_MAX_REDIRECTS, DEFAULT_MAX_REDIRECTS, 'SOURCE_MAX_REDIRECTS'),
+      maxBytes: nonNegativeInteger(env.SOURCE_MAX_BYTES, 0, 'SOURCE_MAX_BYTES'),
+      allowedContentTypes: listFromEnv(env.SOURCE_ALLOWED_CONTENT_TYPES),
+    };
+  }
+  return policy;
+};
+
+// URL.hostname keeps the brackets around IPv6 literals
+export const bareHostname = (url: URL): string => url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+/**
+ * Checks what can be decided from the URL alone: protocol, port and host
+ * name. Literal IP hosts are checked as addresses here; names are checked
+ * again once resolved.
+ */
+export const checkSourceUrl = (url: URL, rules = getSourcePolicy()): void => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw sourceUrlBlocked('protocol', `Protocol ${url.protocol} is not allowed`);
+  }
+
+  const port = url.port ? Number(url.port) : url.protocol === 'https:' ? 443 : 80;
+  if (!rules.allowedPorts.includes(port)) {
+    throw sourceUrlBlocked('port', `Port ${port} is not allowed`);
+  }
+
+  const host = bareHostname(url);
+  if (rules.deniedHosts.some((pattern) => pattern.test(host))) {
+    throw sourceUrlBlocked('host', `Host ${host} is not allowed`);
+  }
+  if (rules.allowedHosts.length > 0 && !rules.allowedHosts.some((pattern) => pattern.test(host))) {
+    throw sourceUrlBlocked('host', `Host ${host} is not in the allowed host list`);
+  }
+
+  if (isIP(host)) {
+    checkSourceAddress(host, rules);
+  }
+};
+
+/**
+ * Checks an address the server is about to connect to. BlockList matches
+ * IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against the IPv4 ranges.
+ */
+export const checkSourceAddress = (address: string, rules = getSourcePolicy()): void => {
+  const type = isIP(address) === 4 ? 'ipv4' : 'ipv6';
+
+  const blocked = rules.deniedCidrs.check(address, type)
+    || (reserved.check(address, type) && !rules.allowedCidrs.check(address, type));
+  if (blocked) {
+    throw sourceUrlBlocked('address', `Address ${address} is not allowed`);
+  }
+};
+
+// Content-Length is checked up front; bodies without one are counted while streaming
+export const checkSourceResponse = (contentType: string, contentLength: number | undefined, rules = getSourcePolicy()): void => {
+  if (rules.maxBytes > 0 && contentLength !== undefined && contentLength > rules.maxBytes) {
+    throw sourceUrlBlocked('size', `Source is ${contentLength} bytes; the limit is ${rules.maxBytes}`);
+  }
+
+  if (rules.allowedContentTypes.length > 0 && !matchesContentType(contentType, rules.allowedContentTypes)) {
+    throw sourceUrlBlocked('content_type', `Content type ${contentType} is not allowed`);
+  }
+};
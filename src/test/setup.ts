@@ -1,9 +1,13 @@
 // Test setup file
 import dotenv from 'dotenv';
+import { logger } from '../server/utils/logger.js';
 
 // Load environment variables for testing
 dotenv.config({ path: '.env.test' });
 
+// Expected failures in tests would otherwise fill the output with error logs
+logger.silent = true;
+
 // Global test configuration
 beforeAll(() => {
   // Setup any global test configuration